@@ -0,0 +1,50 @@
+import { BellRing } from "lucide-react";
+import { CommuteBriefing } from "../types";
+
+interface Props {
+  briefings: CommuteBriefing[];
+  disabled: boolean;
+  onSelect: (briefing: CommuteBriefing) => void;
+}
+
+function formatLeaveBy(iso: string): string {
+  return new Date(iso).toLocaleTimeString("ko-KR", {
+    hour: "2-digit",
+    minute: "2-digit",
+    hour12: false,
+  });
+}
+
+export default function CommuteBanner({
+  briefings,
+  disabled,
+  onSelect,
+}: Props) {
+  if (briefings.length === 0) return null;
+
+  return (
+    <div className="space-y-2">
+      {briefings.map((briefing) => (
+        <button
+          key={briefing.id}
+          type="button"
+          onClick={() => onSelect(briefing)}
+          disabled={disabled}
+          className="flex w-full items-start gap-3 rounded-xl bg-blue-50 px-3 py-2.5 text-left hover:bg-blue-100 disabled:opacity-50"
+        >
+          <BellRing className="mt-0.5 h-4 w-4 shrink-0 text-blue-600" />
+          <div className="min-w-0 flex-1">
+            <div className="text-[12px] font-medium text-blue-700">
+              {briefing.label}
+            </div>
+            <div className="text-[14px] font-semibold text-gray-900">
+              {briefing.headline}
+              {briefing.leaveBy &&
+                ` / ${formatLeaveBy(briefing.leaveBy)}까지 출발`}
+            </div>
+          </div>
+        </button>
+      ))}
+    </div>
+  );
+}
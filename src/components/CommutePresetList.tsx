@@ -0,0 +1,69 @@
+import { CalendarClock, X } from "lucide-react";
+import { CommutePreset } from "../types";
+
+interface Props {
+  presets: CommutePreset[];
+  disabled: boolean;
+  onSelect: (preset: CommutePreset) => void;
+  onDelete: (preset: CommutePreset) => void;
+}
+
+const WEEKDAY_NAMES = ["월", "화", "수", "목", "금", "토", "일"];
+
+function formatWeekdays(weekdays: number[]): string {
+  const days = [...weekdays].sort((a, b) => a - b).join(",");
+  if (days === "1,2,3,4,5") return "평일";
+  if (days === "1,2,3,4,5,6,7") return "매일";
+  return weekdays.map((day) => WEEKDAY_NAMES[day - 1]).join("·");
+}
+
+export default function CommutePresetList({
+  presets,
+  disabled,
+  onSelect,
+  onDelete,
+}: Props) {
+  if (presets.length === 0) return null;
+
+  return (
+    <div>
+      <div className="mb-1 text-[12px] font-medium text-gray-600">출퇴근</div>
+      <div className="overflow-hidden rounded-xl border border-gray-200">
+        {presets.map((preset) => (
+          <div
+            key={preset.id}
+            className="flex items-center border-b border-gray-100 last:border-b-0"
+          >
+            <button
+              type="button"
+              onClick={() => onSelect(preset)}
+              disabled={disabled}
+              className="flex min-w-0 flex-1 items-center gap-3 px-3 py-2.5 text-left hover:bg-gray-50 disabled:opacity-50"
+            >
+              <CalendarClock className="h-4 w-4 shrink-0 text-gray-400" />
+              <div className="min-w-0 flex-1">
+                <div className="truncate text-[14px] font-medium text-gray-900">
+                  {preset.label} · {preset.request.origin.name} →{" "}
+                  {preset.request.destination.name}
+                </div>
+                <div className="mt-0.5 text-[12px] text-gray-500">
+                  {formatWeekdays(preset.weekdays)} {preset.timeHHmm}{" "}
+                  {preset.timeMode === "arrive" ? "도착" : "출발"}
+                </div>
+              </div>
+            </button>
+            <button
+              type="button"
+              aria-label={`${preset.label} 삭제`}
+              onClick={() => onDelete(preset)}
+              disabled={disabled}
+              className="shrink-0 px-3 py-2.5 text-gray-400 hover:text-gray-600 disabled:opacity-50"
+            >
+              <X className="h-4 w-4" />
+            </button>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,73 @@
+import { Minus, Plus } from "lucide-react";
+import { FareCategory } from "../types";
+
+export type PartyCounts = Record<FareCategory, number>;
+
+interface Props {
+  value: PartyCounts;
+  disabled: boolean;
+  onChange: (value: PartyCounts) => void;
+}
+
+const MAX_PASSENGERS = 12;
+
+const CATEGORY_LABELS: Record<FareCategory, { label: string; hint: string }> = {
+  adult: { label: "어른", hint: "19세 이상" },
+  youth: { label: "청소년", hint: "13~18세" },
+  child: { label: "어린이", hint: "6~12세" },
+  senior: { label: "어르신", hint: "65세 이상" },
+};
+
+function partySize(value: PartyCounts): number {
+  return value.adult + value.youth + value.child + value.senior;
+}
+
+export default function PartySelector({ value, disabled, onChange }: Props) {
+  const total = partySize(value);
+
+  const step = (category: FareCategory, delta: number) => {
+    const next = { ...value, [category]: value[category] + delta };
+    if (next[category] < 0) return;
+    const size = partySize(next);
+    if (size < 1 || size > MAX_PASSENGERS) return;
+    onChange(next);
+  };
+
+  return (
+    <div className="grid grid-cols-2 gap-2">
+      {(Object.keys(CATEGORY_LABELS) as FareCategory[]).map((category) => (
+        <div key={category} className="rounded-xl bg-gray-50 px-2 py-2">
+          <div className="text-center text-[12px] font-medium text-gray-700">
+            {CATEGORY_LABELS[category].label}
+            <span className="ml-1 text-[11px] text-gray-400">
+              {CATEGORY_LABELS[category].hint}
+            </span>
+          </div>
+          <div className="mt-1.5 flex items-center justify-between">
+            <button
+              type="button"
+              aria-label={`${CATEGORY_LABELS[category].label} 빼기`}
+              disabled={disabled || value[category] === 0 || total === 1}
+              onClick={() => step(category, -1)}
+              className="rounded-full p-1 text-gray-600 hover:bg-gray-200 disabled:text-gray-300"
+            >
+              <Minus className="h-4 w-4" />
+            </button>
+            <span className="text-[15px] font-semibold text-gray-900">
+              {value[category]}
+            </span>
+            <button
+              type="button"
+              aria-label={`${CATEGORY_LABELS[category].label} 더하기`}
+              disabled={disabled || total >= MAX_PASSENGERS}
+              onClick={() => step(category, 1)}
+              className="rounded-full p-1 text-gray-600 hover:bg-gray-200 disabled:text-gray-300"
+            >
+              <Plus className="h-4 w-4" />
+            </button>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
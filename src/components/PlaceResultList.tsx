@@ -0,0 +1,92 @@
+import { useState } from "react";
+import { Bookmark } from "lucide-react";
+import { PlaceResult, SavedPlaceKind } from "../types";
+
+interface Props {
+  results: PlaceResult[];
+  onSelect: (place: PlaceResult) => void;
+  onSave: (place: PlaceResult, kind: SavedPlaceKind, label?: string) => void;
+}
+
+const MAX_RESULTS = 8;
+
+const SAVE_ACTION_LABELS: Record<SavedPlaceKind, string> = {
+  home: "집으로 저장",
+  work: "회사로 저장",
+  custom: "이름 지정",
+};
+
+function formatDistance(distanceM: number): string {
+  return distanceM < 1000
+    ? `${distanceM}m`
+    : `${(distanceM / 1000).toFixed(1)}km`;
+}
+
+export default function PlaceResultList({ results, onSelect, onSave }: Props) {
+  const [savingIndex, setSavingIndex] = useState<number | null>(null);
+
+  const save = (place: PlaceResult, kind: SavedPlaceKind) => {
+    setSavingIndex(null);
+    if (kind !== "custom") {
+      onSave(place, kind);
+      return;
+    }
+    const label = window.prompt("저장할 이름을 입력하세요", place.name)?.trim();
+    if (label) onSave(place, kind, label);
+  };
+
+  return (
+    <div className="absolute z-20 mt-2 w-full overflow-hidden rounded-xl border border-gray-200 bg-white shadow-[0_10px_24px_rgba(0,0,0,0.10)]">
+      {results.slice(0, MAX_RESULTS).map((r, idx) => (
+        <div key={idx} className="border-b border-gray-100 last:border-b-0">
+          <div className="flex items-center">
+            <button
+              type="button"
+              onClick={() => onSelect(r)}
+              className="min-w-0 flex-1 px-4 py-3 text-left hover:bg-gray-50"
+            >
+              <div className="text-[14px] font-medium text-gray-900">
+                {r.name}
+              </div>
+              <div className="mt-0.5 text-[12px] text-gray-500">
+                {r.address}
+                {r.distanceM !== undefined &&
+                  ` · ${formatDistance(r.distanceM)}`}
+              </div>
+            </button>
+            <button
+              type="button"
+              aria-label="장소 저장"
+              aria-expanded={savingIndex === idx}
+              onClick={() => setSavingIndex(savingIndex === idx ? null : idx)}
+              className="shrink-0 px-3 py-3 text-gray-400 hover:text-blue-600"
+            >
+              <Bookmark
+                className={`h-4 w-4 ${
+                  savingIndex === idx ? "fill-blue-600 text-blue-600" : ""
+                }`}
+              />
+            </button>
+          </div>
+
+          {savingIndex === idx && (
+            <div className="flex gap-1.5 px-4 pb-3">
+              {(Object.keys(SAVE_ACTION_LABELS) as SavedPlaceKind[]).map(
+                (kind) => (
+                  <button
+                    key={kind}
+                    type="button"
+                    onClick={() => save(r, kind)}
+                    className="rounded-full bg-gray-100 px-3 py-1 text-[12px] font-medium text-gray-700 hover:bg-gray-200"
+                  >
+                    {SAVE_ACTION_LABELS[kind]}
+                  </button>
+                )
+              )}
+            </div>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,72 @@
+import { History } from "lucide-react";
+import { RecentSearch } from "../types";
+
+interface Props {
+  searches: RecentSearch[];
+  disabled: boolean;
+  onSelect: (search: RecentSearch) => void;
+  onClear: () => void;
+}
+
+function formatSearchTime(search: RecentSearch): string {
+  const iso = search.arriveBy ?? search.departureTime;
+  if (!iso) return "";
+  const time = new Date(iso).toLocaleTimeString("ko-KR", {
+    hour: "2-digit",
+    minute: "2-digit",
+    hour12: false,
+  });
+  return search.arriveBy ? `${time} 도착` : `${time} 출발`;
+}
+
+export default function RecentSearchList({
+  searches,
+  disabled,
+  onSelect,
+  onClear,
+}: Props) {
+  if (searches.length === 0) return null;
+
+  return (
+    <div>
+      <div className="mb-1 flex items-center justify-between">
+        <div className="text-[12px] font-medium text-gray-600">최근 검색</div>
+        <button
+          type="button"
+          onClick={onClear}
+          disabled={disabled}
+          className="text-[12px] text-gray-400 hover:text-gray-600 disabled:opacity-50"
+        >
+          기록 삭제
+        </button>
+      </div>
+      <div className="overflow-hidden rounded-xl border border-gray-200">
+        {searches.map((search) => (
+          <button
+            key={search.id}
+            type="button"
+            onClick={() => onSelect(search)}
+            disabled={disabled}
+            className="flex w-full items-center gap-3 border-b border-gray-100 px-3 py-2.5 text-left hover:bg-gray-50 last:border-b-0 disabled:opacity-50"
+          >
+            <History className="h-4 w-4 shrink-0 text-gray-400" />
+            <div className="min-w-0 flex-1">
+              <div className="truncate text-[14px] font-medium text-gray-900">
+                {search.origin.name} → {search.destination.name}
+              </div>
+              <div className="mt-0.5 text-[12px] text-gray-500">
+                {[
+                  formatSearchTime(search),
+                  search.arriveBy ? null : `최대 ${search.maxTimeMin}분`,
+                  `도보 ${search.maxWalkMin}분`,
+                ]
+                  .filter(Boolean)
+                  .join(" · ")}
+              </div>
+            </div>
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
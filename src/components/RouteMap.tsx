@@ -0,0 +1,235 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import { GeoPoint, RouteCandidate, RouteLeg, TransitDetails } from "../types";
+import { normalizeHex } from "../lib/colors";
+import {
+  KakaoMap,
+  KakaoMapsApi,
+  KakaoPolyline,
+  KakaoPolylineOptions,
+  loadKakaoMaps,
+} from "../lib/kakaoMaps";
+
+const TAXI_COLOR = "#F59E0B";
+const WALK_COLOR = "#6B7280";
+const DEFAULT_TRANSIT_COLOR = "#2563EB";
+const DIMMED_OPACITY = 0.25;
+const BOUNDS_PADDING_PX = 24;
+
+interface MapLine {
+  legIndex: number;
+  path: GeoPoint[];
+  style: KakaoPolylineOptions;
+}
+
+interface MapMarker {
+  point: GeoPoint;
+  label: string;
+  kind: "endpoint" | "transfer";
+}
+
+interface Ride {
+  from: string;
+  start?: GeoPoint;
+  end?: GeoPoint;
+}
+
+function lastOf<T>(items: T[] | undefined): T | undefined {
+  return items?.[items.length - 1];
+}
+
+function walkStyle(): KakaoPolylineOptions {
+  return {
+    strokeColor: WALK_COLOR,
+    strokeWeight: 4,
+    strokeOpacity: 0.9,
+    strokeStyle: "shortdash",
+  };
+}
+
+function legLines(leg: RouteLeg, legIndex: number): MapLine[] {
+  if (leg.type !== "transit") {
+    if (!leg.path || leg.path.length < 2) return [];
+    const style: KakaoPolylineOptions =
+      leg.type === "taxi"
+        ? { strokeColor: TAXI_COLOR, strokeWeight: 6, strokeOpacity: 0.9 }
+        : walkStyle();
+    return [{ legIndex, path: leg.path, style }];
+  }
+
+  const steps = (leg.details as TransitDetails | undefined)?.steps ?? [];
+  return steps.flatMap((step) => {
+    const path =
+      step.path ?? (step.start && step.end ? [step.start, step.end] : []);
+    if (path.length < 2) return [];
+    const style: KakaoPolylineOptions =
+      step.mode === "WALK"
+        ? walkStyle()
+        : {
+            strokeColor: normalizeHex(step.routeColor) ?? DEFAULT_TRANSIT_COLOR,
+            strokeWeight: 6,
+            strokeOpacity: 0.9,
+          };
+    return [{ legIndex, path, style }];
+  });
+}
+
+// Every vehicle in order, so the places where the rider changes from one to
+// the next can be marked.
+function legRides(leg: RouteLeg): Ride[] {
+  if (leg.type === "taxi") {
+    return [{ from: leg.from, start: leg.path?.[0], end: lastOf(leg.path) }];
+  }
+  if (leg.type !== "transit") return [];
+  const steps = (leg.details as TransitDetails | undefined)?.steps ?? [];
+  return steps
+    .filter((step) => step.mode !== "WALK")
+    .map((step) => ({
+      from: step.from,
+      start: step.start ?? step.path?.[0],
+      end: step.end ?? lastOf(step.path),
+    }));
+}
+
+function routeMarkers(route: RouteCandidate, lines: MapLine[]): MapMarker[] {
+  const markers: MapMarker[] = [];
+  const first = lines[0]?.path[0];
+  const last = lastOf(lastOf(lines)?.path);
+  if (first) markers.push({ point: first, label: "출발", kind: "endpoint" });
+
+  const rides = route.legs.flatMap(legRides);
+  for (let i = 1; i < rides.length; i++) {
+    const point = rides[i].start ?? rides[i - 1].end;
+    if (point) {
+      markers.push({ point, label: rides[i].from, kind: "transfer" });
+    }
+  }
+
+  if (last) markers.push({ point: last, label: "도착", kind: "endpoint" });
+  return markers;
+}
+
+function markerElement(marker: MapMarker): HTMLElement {
+  const element = document.createElement("div");
+  element.className =
+    marker.kind === "endpoint"
+      ? "px-2 py-0.5 rounded-full bg-gray-900 text-white text-[11px] font-bold shadow"
+      : "px-2 py-0.5 rounded-full bg-white border-2 border-gray-900 text-gray-900 text-[11px] font-semibold shadow";
+  element.textContent = marker.label;
+  return element;
+}
+
+export default function RouteMap({
+  route,
+  focusedLeg,
+}: {
+  route: RouteCandidate;
+  focusedLeg: number | null;
+}) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const mapRef = useRef<KakaoMap | null>(null);
+  const polylinesRef = useRef<
+    Array<{ line: MapLine; polyline: KakaoPolyline }>
+  >([]);
+  const [maps, setMaps] = useState<KakaoMapsApi | null>(null);
+  const [loadFailed, setLoadFailed] = useState(false);
+
+  const lines = useMemo(() => route.legs.flatMap(legLines), [route]);
+  const markers = useMemo(() => routeMarkers(route, lines), [route, lines]);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadKakaoMaps()
+      .then((api) => {
+        if (!cancelled) setMaps(api);
+      })
+      .catch((err) => {
+        console.error("Kakao map load failed:", err);
+        if (!cancelled) setLoadFailed(true);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!maps || !container || lines.length === 0) return;
+
+    const toLatLng = (p: GeoPoint) => new maps.LatLng(p.lat, p.lng);
+    const map =
+      mapRef.current ??
+      new maps.Map(container, { center: toLatLng(lines[0].path[0]), level: 7 });
+    mapRef.current = map;
+
+    const polylines = lines.map((line) => ({
+      line,
+      polyline: new maps.Polyline({
+        map,
+        path: line.path.map(toLatLng),
+        ...line.style,
+      }),
+    }));
+    const overlays = markers.map(
+      (marker) =>
+        new maps.CustomOverlay({
+          map,
+          position: toLatLng(marker.point),
+          content: markerElement(marker),
+          yAnchor: 0.5,
+          zIndex: 3,
+        })
+    );
+    polylinesRef.current = polylines;
+
+    return () => {
+      polylines.forEach(({ polyline }) => polyline.setMap(null));
+      overlays.forEach((overlay) => overlay.setMap(null));
+      polylinesRef.current = [];
+    };
+  }, [maps, lines, markers]);
+
+  // Focusing a leg dims the others and zooms to it; no focus shows it all.
+  useEffect(() => {
+    const map = mapRef.current;
+    if (!maps || !map || lines.length === 0) return;
+
+    const isFocused = (line: MapLine) =>
+      focusedLeg === null || line.legIndex === focusedLeg;
+    for (const { line, polyline } of polylinesRef.current) {
+      polyline.setOptions({
+        strokeOpacity: isFocused(line)
+          ? line.style.strokeOpacity
+          : DIMMED_OPACITY,
+      });
+      polyline.setZIndex(isFocused(line) ? 2 : 1);
+    }
+
+    const focusedLines = lines.filter(isFocused);
+    const bounds = new maps.LatLngBounds();
+    for (const line of focusedLines.length > 0 ? focusedLines : lines) {
+      line.path.forEach((p) => bounds.extend(new maps.LatLng(p.lat, p.lng)));
+    }
+    map.setBounds(
+      bounds,
+      BOUNDS_PADDING_PX,
+      BOUNDS_PADDING_PX,
+      BOUNDS_PADDING_PX,
+      BOUNDS_PADDING_PX
+    );
+  }, [maps, lines, focusedLeg]);
+
+  if (lines.length === 0) return null;
+
+  if (loadFailed) {
+    return (
+      <p className="text-[12px] text-gray-500">지도를 불러오지 못했어요.</p>
+    );
+  }
+
+  return (
+    <div
+      ref={containerRef}
+      className="h-56 sm:h-64 w-full rounded-xl overflow-hidden bg-gray-100"
+    />
+  );
+}
@@ -12,17 +12,46 @@ import {
   Footprints,
   Train,
 } from "lucide-react";
-import { RouteResponse, RouteCandidate } from "../types";
+import {
+  RealtimeArrival,
+  RouteResponse,
+  RouteCandidate,
+  StepFare,
+  TaxiDetails,
+  TaxiProduct,
+  TransitDetails,
+  TransitStep,
+} from "../types";
+import { normalizeHex } from "../lib/colors";
+import { hasKakaoMapKey } from "../lib/kakaoMaps";
+import RouteMap from "./RouteMap";
 
 interface Props {
   response: RouteResponse;
 }
 
+const TAXI_PRODUCT_LABELS: Record<TaxiProduct, string> = {
+  regular: "일반 택시",
+  deluxe: "모범 택시",
+  large: "대형 택시",
+};
+
+const FARE_DISCOUNT_LABELS: Record<
+  NonNullable<StepFare["discount"]>,
+  string
+> = {
+  youth: "청소년 할인",
+  child: "어린이 할인",
+  senior: "어르신",
+  "climate-card": "기후동행카드",
+};
+
 const ROUTE_TYPE_LABELS: Record<string, string> = {
   "transit-only": "대중교통",
   "taxi-only": "택시",
   "taxi-transit": "택시+대중교통",
   "transit-taxi": "대중교통+택시",
+  "taxi-transit-taxi": "택시+대중교통+택시",
 };
 
 function formatTime(isoString?: string): string {
@@ -35,25 +64,6 @@ function formatTime(isoString?: string): string {
   });
 }
 
-function normalizeHex(color: string | undefined): string | null {
-  if (!color) return null;
-  const c = color.trim();
-  if (!c) return null;
-
-  if (c.startsWith("#")) {
-    const hex = c.slice(1);
-    if (/^[0-9a-fA-F]{6}$/.test(hex)) return `#${hex.toUpperCase()}`;
-    if (/^[0-9a-fA-F]{3}$/.test(hex)) {
-      const r = hex[0];
-      const g = hex[1];
-      const b = hex[2];
-      return `#${(r + r + g + g + b + b).toUpperCase()}`;
-    }
-    return null;
-  }
-  return null;
-}
-
 function pickTextColorFromHex(bgHex: string | undefined): string {
   const normalized = normalizeHex(bgHex);
   if (!normalized) return "#111827";
@@ -66,7 +76,16 @@ function pickTextColorFromHex(bgHex: string | undefined): string {
   return luminance > 0.62 ? "#111827" : "#FFFFFF";
 }
 
-function isMeaninglessWalkStep(step: any): boolean {
+// Walk step durations come from the server, already adjusted for the
+// rider's walking speed.
+function walkMinutes(steps: TransitStep[]): number {
+  const walkSec = steps
+    .filter((step) => step.mode === "WALK")
+    .reduce((sum, step) => sum + (step.duration ?? 0), 0);
+  return Math.ceil(walkSec / 60);
+}
+
+function isMeaninglessWalkStep(step: TransitStep): boolean {
   if (!step) return true;
   if (step.mode !== "WALK") return false;
 
@@ -81,6 +100,76 @@ function isMeaninglessWalkStep(step: any): boolean {
   return false;
 }
 
+function LastServiceBadge() {
+  return (
+    <span className="shrink-0 px-2 py-0.5 rounded-full text-[11px] font-semibold bg-amber-100 text-amber-800">
+      막차 이후
+    </span>
+  );
+}
+
+function NoStepFreeBadge() {
+  return (
+    <span
+      className="shrink-0 px-2 py-0.5 rounded-full text-[11px] font-semibold bg-rose-100 text-rose-800"
+      title="승하차역에 지상에서 승강장까지 이어지는 엘리베이터가 없어요"
+    >
+      엘리베이터 없음
+    </span>
+  );
+}
+
+function StepFreeUnknownBadge() {
+  return (
+    <span
+      className="shrink-0 px-2 py-0.5 rounded-full text-[11px] font-semibold bg-amber-100 text-amber-800"
+      title="승하차역의 엘리베이터 정보가 없어요. 출발 전에 확인해 주세요"
+    >
+      엘리베이터 정보 없음
+    </span>
+  );
+}
+
+function LiveArrivalBadge({ arrival }: { arrival: RealtimeArrival }) {
+  return (
+    <span
+      className="shrink-0 inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-[11px] font-semibold bg-emerald-100 text-emerald-800"
+      title={`실시간 도착 정보 · ${formatTime(arrival.nextDepartureAt)} 탑승`}
+    >
+      <span className="h-1.5 w-1.5 rounded-full bg-emerald-500 animate-pulse" />
+      {arrival.arrivesInMin > 0
+        ? `${arrival.arrivesInMin}분 후 도착`
+        : "곧 도착"}
+    </span>
+  );
+}
+
+function FareDiscountBadge({ fare }: { fare: StepFare }) {
+  return (
+    <span
+      className="shrink-0 px-2 py-0.5 rounded-full text-[11px] font-semibold bg-sky-100 text-sky-800"
+      title={`일반 요금 ${fare.baseKrw.toLocaleString()}원`}
+    >
+      {FARE_DISCOUNT_LABELS[fare.discount!]}{" "}
+      {fare.paidKrw > 0 ? `${fare.paidKrw.toLocaleString()}원` : "무료"}
+    </span>
+  );
+}
+
+function LastServiceNotice({ count }: { count: number }) {
+  return (
+    <div className="rounded-2xl border border-amber-200 bg-amber-50 p-4 sm:p-5">
+      <p className="text-[13px] sm:text-sm font-semibold text-amber-900">
+        막차 이후 시간대예요
+      </p>
+      <p className="mt-1 text-[12px] sm:text-sm text-amber-800">
+        출발 시각 기준으로 운행이 끝난 지하철·버스를 타야 하는 경로 {count}개는
+        추천에서 제외했어요. 심야버스나 택시를 이용해 주세요.
+      </p>
+    </div>
+  );
+}
+
 function StatBox({
   icon,
   label,
@@ -125,6 +214,7 @@ function RouteCard({
   variant?: "featured" | "compact";
 }) {
   const [expanded, setExpanded] = useState(defaultExpanded ?? isBest);
+  const [focusedLeg, setFocusedLeg] = useState<number | null>(null);
 
   const timeLine = useMemo(() => {
     const dep = formatTime(route.departureTime);
@@ -139,6 +229,10 @@ function RouteCard({
     return `여유 ${route.slackMin}분`;
   }, [route.slackMin]);
 
+  const leaveByLabel = route.leaveBy
+    ? `${formatTime(route.leaveBy)}까지 출발`
+    : null;
+
   const typeLabel = ROUTE_TYPE_LABELS[route.type] ?? route.type;
   const showTitle = variant === "featured";
 
@@ -174,6 +268,8 @@ function RouteCard({
               >
                 {typeLabel}
               </span>
+
+              {route.afterLastService && <LastServiceBadge />}
             </div>
           ) : (
             <div className="flex flex-wrap items-center gap-x-2 gap-y-1">
@@ -187,6 +283,8 @@ function RouteCard({
                 {typeLabel}
               </span>
 
+              {route.afterLastService && <LastServiceBadge />}
+
               {timeLine && (
                 <div
                   className={`flex items-center min-w-0 ${
@@ -208,10 +306,20 @@ function RouteCard({
                   {slackLabel}
                 </div>
               )}
+
+              {leaveByLabel && (
+                <div
+                  className={`shrink-0 font-semibold ${
+                    isBest ? "text-white" : "text-blue-700"
+                  } text-[12px] sm:text-sm`}
+                >
+                  {leaveByLabel}
+                </div>
+              )}
             </div>
           )}
 
-          {showTitle && (timeLine || slackLabel) && (
+          {showTitle && (timeLine || slackLabel || leaveByLabel) && (
             <div
               className={`mt-2 flex flex-wrap items-center gap-x-3 gap-y-1 ${
                 isBest ? "text-white/90" : "text-gray-600"
@@ -229,6 +337,16 @@ function RouteCard({
                   {slackLabel}
                 </div>
               )}
+
+              {leaveByLabel && (
+                <div
+                  className={`shrink-0 font-semibold ${
+                    isBest ? "text-white" : "text-blue-700"
+                  } text-[12px] sm:text-sm`}
+                >
+                  {leaveByLabel}
+                </div>
+              )}
             </div>
           )}
         </div>
@@ -268,23 +386,70 @@ function RouteCard({
           isBest={isBest}
           className="col-span-2 sm:col-span-1"
           icon={<Wallet className="w-4 h-4" />}
-          label="총 요금"
+          label={
+            route.perPersonCostKrw !== undefined
+              ? `총 요금 · 1인 ${route.perPersonCostKrw.toLocaleString()}원`
+              : "총 요금"
+          }
           value={`${route.totalCostKrw.toLocaleString()}원`}
         />
       </div>
 
       {expanded && (
         <div className="space-y-3">
+          {route.score && (
+            <p
+              className={`text-[12px] ${
+                isBest ? "text-white/75" : "text-gray-500"
+              }`}
+            >
+              환산 비용 {route.score.generalizedCostKrw.toLocaleString()}원
+              (요금 {route.score.fareKrw.toLocaleString()} + 시간{" "}
+              {route.score.timeCostKrw.toLocaleString()} + 도보{" "}
+              {route.score.walkPenaltyKrw.toLocaleString()} + 환승{" "}
+              {route.score.transferPenaltyKrw.toLocaleString()})
+            </p>
+          )}
+
+          {hasKakaoMapKey && <RouteMap route={route} focusedLeg={focusedLeg} />}
+
           {route.legs.map((leg, idx) => {
             const isTaxi = leg.type === "taxi";
             const isTransit = leg.type === "transit";
             const isWalk = leg.type === "walk";
+            const taxiDetails = isTaxi
+              ? (leg.details as TaxiDetails | undefined)
+              : undefined;
+            const transitDetails = isTransit
+              ? (leg.details as TransitDetails | undefined)
+              : undefined;
+
+            const isFocused = focusedLeg === idx;
+            const toggleFocus = () => setFocusedLeg(isFocused ? null : idx);
 
             return (
               <div
                 key={idx}
+                {...(hasKakaoMapKey && {
+                  role: "button",
+                  tabIndex: 0,
+                  "aria-pressed": isFocused,
+                  onClick: toggleFocus,
+                  onKeyDown: (e: React.KeyboardEvent) => {
+                    if (e.key === "Enter" || e.key === " ") {
+                      e.preventDefault();
+                      toggleFocus();
+                    }
+                  },
+                })}
                 className={`rounded-xl p-4 ${
                   isBest ? "bg-white/10" : "bg-gray-50"
+                } ${hasKakaoMapKey ? "cursor-pointer" : ""} ${
+                  isFocused
+                    ? isBest
+                      ? "ring-2 ring-white/70"
+                      : "ring-2 ring-blue-500"
+                    : ""
                 }`}
               >
                 <div className="flex items-start">
@@ -323,160 +488,206 @@ function RouteCard({
                       </p>
                     )}
 
-                    {isTaxi && leg.details && "taxiFare" in leg.details && (
+                    {taxiDetails && "taxiFare" in taxiDetails && (
                       <div
                         className={`text-[13px] sm:text-sm mt-2 space-y-1 ${
                           isBest ? "text-white/85" : "text-gray-700"
                         }`}
                       >
-                        {typeof (leg.details as any).taxiFare === "number" && (
+                        {typeof taxiDetails.taxiFare === "number" && (
                           <p>
-                            택시 요금{" "}
-                            {(leg.details as any).taxiFare.toLocaleString()}원
+                            {
+                              TAXI_PRODUCT_LABELS[
+                                taxiDetails.product ?? "regular"
+                              ]
+                            }{" "}
+                            요금 {taxiDetails.taxiFare.toLocaleString()}원
+                          </p>
+                        )}
+                        {!!taxiDetails.callFee && (
+                          <p>호출비 {taxiDetails.callFee.toLocaleString()}원</p>
+                        )}
+                        {typeof taxiDetails.pickupWaitMin === "number" && (
+                          <p
+                            className={`text-[12px] ${
+                              isBest ? "text-white/70" : "text-gray-500"
+                            }`}
+                          >
+                            배차 대기 약 {taxiDetails.pickupWaitMin}분
+                            {typeof taxiDetails.pickupWaitP90Min === "number" &&
+                              ` (길면 ${taxiDetails.pickupWaitP90Min}분)`}{" "}
+                            포함
                           </p>
                         )}
-                        {typeof (leg.details as any).tollFare === "number" &&
-                          (leg.details as any).tollFare > 0 && (
+                        {typeof taxiDetails.tollFare === "number" &&
+                          taxiDetails.tollFare > 0 && (
                             <p>
-                              통행료{" "}
-                              {(leg.details as any).tollFare.toLocaleString()}원
+                              통행료 {taxiDetails.tollFare.toLocaleString()}원
                             </p>
                           )}
-                      </div>
-                    )}
-
-                    {isTransit &&
-                      leg.details &&
-                      "steps" in leg.details &&
-                      (leg.details as any).steps && (
-                        <>
-                          <div
-                            className={`mt-2 text-[13px] sm:text-sm ${
-                              isBest ? "text-white/85" : "text-gray-700"
+                        {taxiDetails?.fareSource === "estimated" && (
+                          <p
+                            className={`text-[12px] ${
+                              isBest ? "text-white/70" : "text-gray-500"
                             }`}
                           >
-                            {"totalWalkM" in (leg.details as any) &&
-                              typeof (leg.details as any).totalWalkM ===
-                                "number" && (
-                                <span className="mr-3 whitespace-nowrap">
-                                  도보{" "}
-                                  {Math.ceil(
-                                    (((leg.details as any).totalWalkM ?? 0) as
-                                      number) / 70
-                                  )}
-                                  분
-                                </span>
-                              )}
-                            {"busCount" in (leg.details as any) &&
-                              typeof (leg.details as any).busCount ===
-                                "number" && (
-                                <span className="mr-3 whitespace-nowrap">
-                                  버스 {(leg.details as any).busCount}회
-                                </span>
-                              )}
-                            {"subwayCount" in (leg.details as any) &&
-                              typeof (leg.details as any).subwayCount ===
-                                "number" && (
-                                <span className="whitespace-nowrap">
-                                  지하철 {(leg.details as any).subwayCount}회
-                                </span>
-                              )}
-                          </div>
-
-                          <div className="space-y-2 mt-3">
-                            {(leg.details as any).steps
-                              .filter((s: any) => !isMeaninglessWalkStep(s))
-                              .map((step: any, stepIdx: number) => {
-                                const durMin = Math.max(
-                                  1,
-                                  Math.ceil((step.duration ?? 0) / 60)
-                                );
-
-                                const bg =
-                                  normalizeHex(step.routeColor) ?? "#2563EB";
-                                const fg = pickTextColorFromHex(bg);
-
-                                return (
-                                  <div
-                                    key={stepIdx}
-                                    className={`rounded-lg p-3 ${
-                                      isBest
-                                        ? "bg-white/10"
-                                        : "bg-white border border-gray-100"
-                                    }`}
-                                  >
-                                    <div className="flex items-center justify-between gap-3">
-                                      <div className="flex items-center gap-2 min-w-0">
-                                        {step.mode === "SUBWAY" && (
-                                          <Train className="w-4 h-4 shrink-0" />
-                                        )}
-                                        {step.mode === "BUS" && (
-                                          <Bus className="w-4 h-4 shrink-0" />
-                                        )}
-                                        {step.mode === "WALK" && (
-                                          <Footprints className="w-4 h-4 shrink-0" />
-                                        )}
-
-                                        <span
-                                          className={`font-medium shrink-0 text-[13px] sm:text-sm ${
-                                            isBest
-                                              ? "text-white"
-                                              : "text-gray-900"
-                                          }`}
-                                        >
-                                          {step.mode === "SUBWAY"
-                                            ? "지하철"
-                                            : step.mode === "BUS"
-                                            ? "버스"
-                                            : "도보"}
-                                        </span>
+                            예상 요금
+                            {!!taxiDetails.nightSurchargeRate &&
+                              ` · 심야 할증 ${Math.round(
+                                taxiDetails.nightSurchargeRate * 100
+                              )}%`}
+                            {taxiDetails.suburbSurcharge && " · 시계외 할증"}
+                          </p>
+                        )}
+                      </div>
+                    )}
 
-                                        {step.route && (
-                                          <span
-                                            className="px-2 py-0.5 rounded text-[11px] sm:text-xs font-bold shrink-0"
-                                            style={{
-                                              backgroundColor: bg,
-                                              color: fg,
-                                            }}
-                                          >
-                                            {step.route}
-                                          </span>
-                                        )}
-                                      </div>
+                    {transitDetails?.steps && (
+                      <>
+                        <div
+                          className={`mt-2 text-[13px] sm:text-sm ${
+                            isBest ? "text-white/85" : "text-gray-700"
+                          }`}
+                        >
+                          {typeof transitDetails.totalWalkM === "number" && (
+                            <span className="mr-3 whitespace-nowrap">
+                              도보 {walkMinutes(transitDetails.steps)}분
+                            </span>
+                          )}
+                          {typeof transitDetails.busCount === "number" && (
+                            <span className="mr-3 whitespace-nowrap">
+                              버스 {transitDetails.busCount}회
+                            </span>
+                          )}
+                          {typeof transitDetails.subwayCount === "number" && (
+                            <span className="mr-3 whitespace-nowrap">
+                              지하철 {transitDetails.subwayCount}회
+                            </span>
+                          )}
+                          {!!transitDetails.fareDiscountKrw && (
+                            <span className="whitespace-nowrap">
+                              요금 할인{" "}
+                              {transitDetails.fareDiscountKrw.toLocaleString()}
+                              원
+                            </span>
+                          )}
+                        </div>
+
+                        <div className="space-y-2 mt-3">
+                          {transitDetails.steps
+                            .filter((s) => !isMeaninglessWalkStep(s))
+                            .map((step, stepIdx) => {
+                              const durMin = Math.max(
+                                1,
+                                Math.ceil((step.duration ?? 0) / 60)
+                              );
+
+                              const bg =
+                                normalizeHex(step.routeColor) ?? "#2563EB";
+                              const fg = pickTextColorFromHex(bg);
+
+                              return (
+                                <div
+                                  key={stepIdx}
+                                  className={`rounded-lg p-3 ${
+                                    isBest
+                                      ? "bg-white/10"
+                                      : "bg-white border border-gray-100"
+                                  }`}
+                                >
+                                  <div className="flex items-center justify-between gap-3">
+                                    <div className="flex items-center gap-2 min-w-0">
+                                      {step.mode === "SUBWAY" && (
+                                        <Train className="w-4 h-4 shrink-0" />
+                                      )}
+                                      {step.mode === "BUS" && (
+                                        <Bus className="w-4 h-4 shrink-0" />
+                                      )}
+                                      {step.mode === "WALK" && (
+                                        <Footprints className="w-4 h-4 shrink-0" />
+                                      )}
 
                                       <span
-                                        className={`text-[11px] sm:text-xs shrink-0 ${
+                                        className={`font-medium shrink-0 text-[13px] sm:text-sm ${
                                           isBest
-                                            ? "text-white/70"
-                                            : "text-gray-500"
+                                            ? "text-white"
+                                            : "text-gray-900"
                                         }`}
                                       >
-                                        {durMin}분
+                                        {step.mode === "SUBWAY"
+                                          ? "지하철"
+                                          : step.mode === "BUS"
+                                          ? "버스"
+                                          : "도보"}
                                       </span>
+
+                                      {step.afterLastService && (
+                                        <LastServiceBadge />
+                                      )}
+
+                                      {step.lacksStepFreeAccess && (
+                                        <NoStepFreeBadge />
+                                      )}
+
+                                      {step.stepFreeAccessUnknown && (
+                                        <StepFreeUnknownBadge />
+                                      )}
+
+                                      {step.fare?.discount && (
+                                        <FareDiscountBadge fare={step.fare} />
+                                      )}
+
+                                      {step.realtime && (
+                                        <LiveArrivalBadge
+                                          arrival={step.realtime}
+                                        />
+                                      )}
+
+                                      {step.route && (
+                                        <span
+                                          className="px-2 py-0.5 rounded text-[11px] sm:text-xs font-bold shrink-0"
+                                          style={{
+                                            backgroundColor: bg,
+                                            color: fg,
+                                          }}
+                                        >
+                                          {step.route}
+                                        </span>
+                                      )}
                                     </div>
 
-                                    {step.from && step.to && (
-                                      <p
-                                        className={`text-[11px] sm:text-xs mt-1 ${
-                                          isBest
-                                            ? "text-white/70"
-                                            : "text-gray-500"
-                                        } truncate`}
-                                        title={`${step.from} → ${step.to}`}
-                                      >
-                                        {step.from} → {step.to}
-                                        {typeof step.stationCount ===
-                                          "number" &&
-                                          step.stationCount > 0 &&
-                                          ` (${step.stationCount}개 정거장)`}
-                                      </p>
-                                    )}
+                                    <span
+                                      className={`text-[11px] sm:text-xs shrink-0 ${
+                                        isBest
+                                          ? "text-white/70"
+                                          : "text-gray-500"
+                                      }`}
+                                    >
+                                      {durMin}분
+                                    </span>
                                   </div>
-                                );
-                              })}
-                          </div>
-                        </>
-                      )}
+
+                                  {step.from && step.to && (
+                                    <p
+                                      className={`text-[11px] sm:text-xs mt-1 ${
+                                        isBest
+                                          ? "text-white/70"
+                                          : "text-gray-500"
+                                      } truncate`}
+                                      title={`${step.from} → ${step.to}`}
+                                    >
+                                      {step.from} → {step.to}
+                                      {typeof step.stationCount === "number" &&
+                                        step.stationCount > 0 &&
+                                        ` (${step.stationCount}개 정거장)`}
+                                    </p>
+                                  )}
+                                </div>
+                              );
+                            })}
+                        </div>
+                      </>
+                    )}
 
                     {!isTaxi && leg.costKrw > 0 && (
                       <p
@@ -510,22 +721,27 @@ export default function RouteResults({ response }: Props) {
   if (!routes || routes.length === 0) return null;
 
   const taxiOnly =
-    (response as any).taxiOnly ?? routes.find((r: any) => r.type === "taxi-only");
+    response.taxiOnly ?? routes.find((r) => r.type === "taxi-only");
 
-  const transitOnlyRoutes = routes.filter((r: any) => r.type === "transit-only");
+  const transitOnlyRoutes = routes.filter((r) => r.type === "transit-only");
   const mixedRoutes = routes.filter(
-    (r: any) => r.type === "taxi-transit" || r.type === "transit-taxi"
+    (r) =>
+      r.type === "taxi-transit" ||
+      r.type === "transit-taxi" ||
+      r.type === "taxi-transit-taxi"
   );
 
-  const best = routes[0] as any;
-  const bestMixed = mixedRoutes[0] ?? null;
-  const taxiSuppressed = (response as any).taxiSuppressed ?? null;
+  const best = routes[0];
+  const taxiSuppressed = response.taxiSuppressed ?? null;
+  const afterLastServiceCount = response.afterLastServiceCount ?? 0;
 
   const savingsKrw =
     taxiOnly && best
       ? Math.max(0, taxiOnly.totalCostKrw - best.totalCostKrw)
       : null;
 
+  const passengers = constraints.passengers ?? 1;
+
   const savingsTimeMin =
     taxiOnly && best ? taxiOnly.totalTimeMin - best.totalTimeMin : null;
 
@@ -537,7 +753,7 @@ export default function RouteResults({ response }: Props) {
     savingsKrw > 0;
 
   if (noFeasibleRoute) {
-    const referenceRoutes = routes.filter((r: any) => r.type !== "taxi-only");
+    const referenceRoutes = routes.filter((r) => r.type !== "taxi-only");
 
     return (
       <div className="space-y-4 sm:space-y-6">
@@ -551,8 +767,12 @@ export default function RouteResults({ response }: Props) {
                 조건에 맞는 경로가 없습니다
               </h2>
               <p className="text-[13px] sm:text-sm text-amber-700 mb-4">
-                최대 {constraints.maxTimeMin}분 / 도보 {constraints.maxWalkMin}
-                분 이내 조건을 만족하는 경로를 찾지 못했습니다.
+                {constraints.arriveBy
+                  ? `${formatTime(constraints.arriveBy)}까지 도착 / 도보 ${
+                      constraints.maxWalkMin
+                    }분 이내`
+                  : `최대 ${constraints.maxTimeMin}분 / 도보 ${constraints.maxWalkMin}분 이내`}{" "}
+                조건을 만족하는 경로를 찾지 못했습니다.
               </p>
 
               <div className="bg-white rounded-xl p-4 border border-amber-200">
@@ -602,6 +822,10 @@ export default function RouteResults({ response }: Props) {
           </div>
         </div>
 
+        {afterLastServiceCount > 0 && (
+          <LastServiceNotice count={afterLastServiceCount} />
+        )}
+
         {taxiOnly && (
           <div className="space-y-3 sm:space-y-4">
             <h3 className="text-[15px] sm:text-lg font-semibold text-gray-700">
@@ -616,7 +840,7 @@ export default function RouteResults({ response }: Props) {
             <h3 className="text-[15px] sm:text-lg font-semibold text-gray-700">
               참고
             </h3>
-            {referenceRoutes.map((r: any, idx: number) => (
+            {referenceRoutes.map((r, idx) => (
               <RouteCard
                 key={r.id ?? idx}
                 route={r}
@@ -656,6 +880,10 @@ export default function RouteResults({ response }: Props) {
           </div>
         )}
 
+      {afterLastServiceCount > 0 && (
+        <LastServiceNotice count={afterLastServiceCount} />
+      )}
+
       {showSavingsBox && (
         <div className="rounded-2xl border border-emerald-200 bg-emerald-50 p-5 sm:p-6">
           <div className="flex items-start gap-3">
@@ -665,11 +893,22 @@ export default function RouteResults({ response }: Props) {
             <div className="min-w-0">
               <p className="text-[14px] sm:text-base font-semibold text-emerald-900">
                 {savingsKrw!.toLocaleString()}원을 아꼈어요!
+                {passengers > 1 &&
+                  ` (1인 ${Math.round(
+                    savingsKrw! / passengers
+                  ).toLocaleString()}원)`}
               </p>
               <p className="mt-1 text-[12px] sm:text-sm text-emerald-800">
                 택시만 탔을 때({taxiOnly.totalCostKrw.toLocaleString()}원) 대비{" "}
                 추천 경로({best.totalCostKrw.toLocaleString()}원)
               </p>
+              {passengers > 1 && (
+                <p className="mt-1 text-[12px] sm:text-sm text-emerald-800">
+                  {passengers}명 1인당 택시{" "}
+                  {taxiOnly.perPersonCostKrw?.toLocaleString()}원 → 추천 경로{" "}
+                  {best.perPersonCostKrw?.toLocaleString()}원
+                </p>
+              )}
               {typeof savingsTimeMin === "number" && savingsTimeMin !== 0 && (
                 <p className="mt-1 text-[12px] sm:text-sm text-emerald-800">
                   시간은{" "}
@@ -713,7 +952,7 @@ export default function RouteResults({ response }: Props) {
           <h3 className="text-[16px] sm:text-xl font-bold text-gray-900">
             대중교통
           </h3>
-          {transitOnlyRoutes.map((r: any, idx: number) => (
+          {transitOnlyRoutes.map((r, idx) => (
             <RouteCard key={r.id ?? idx} route={r} title="" variant="compact" />
           ))}
         </div>
@@ -725,8 +964,8 @@ export default function RouteResults({ response }: Props) {
             대안
           </h3>
           {mixedRoutes
-            .filter((r: any) => r.id !== best?.id)
-            .map((r: any, idx: number) => (
+            .filter((r) => r.id !== best?.id)
+            .map((r, idx) => (
               <RouteCard
                 key={r.id ?? idx}
                 route={r}
@@ -2,8 +2,52 @@ import { useState, useRef, useEffect, useCallback } from "react";
 import TimePicker from "react-time-picker";
 import "react-time-picker/dist/TimePicker.css";
 import "react-clock/dist/Clock.css";
+import { LocateFixed } from "lucide-react";
 
-import { SearchRequest, RouteResponse, Location } from "../types";
+import CommuteBanner from "./CommuteBanner";
+import CommutePresetList from "./CommutePresetList";
+import PartySelector, { PartyCounts } from "./PartySelector";
+import PlaceResultList from "./PlaceResultList";
+import RecentSearchList from "./RecentSearchList";
+import SavedPlaceChips from "./SavedPlaceChips";
+import {
+  AccessibilityProfile,
+  CommuteBriefing,
+  CommutePreset,
+  CommuteRequest,
+  FareCategory,
+  FareProfile,
+  SearchRequest,
+  RouteResponse,
+  GeoPoint,
+  Location,
+  PlaceResult,
+  RecentSearch,
+  SavedPlace,
+  SavedPlaceKind,
+  RouteErrorResponse,
+  ScoringModel,
+  TaxiProduct,
+} from "../types";
+import { getClientId } from "../lib/clientId";
+import {
+  deleteCommutePreset,
+  fetchCommutePresets,
+  fetchTodayBriefings,
+  saveCommutePreset,
+} from "../lib/commutes";
+import { clearSearchHistory, fetchRecentSearches } from "../lib/searchHistory";
+import {
+  APPROXIMATE_ACCURACY_M,
+  CurrentLocationFailure,
+  locateCurrentPosition,
+} from "../lib/currentLocation";
+import { searchPlaces } from "../lib/places";
+import {
+  deleteSavedPlace,
+  fetchSavedPlaces,
+  savePlace,
+} from "../lib/savedPlaces";
 
 interface Props {
   onSearch: (response: RouteResponse) => void;
@@ -11,18 +55,169 @@ interface Props {
   onLoadingChange: (loading: boolean) => void;
 }
 
-interface PlaceResult {
-  name: string;
-  address: string;
-  lat: number;
-  lng: number;
+type TimeMode = "depart" | "arrive";
+
+const DEFAULT_COMMUTE_LABEL = "출근";
+const SOLO_PARTY: PartyCounts = { adult: 1, youth: 0, child: 0, senior: 0 };
+
+function partySize(party: PartyCounts): number {
+  return party.adult + party.youth + party.child + party.senior;
+}
+
+type ScoringPreset = "cheapest" | "balanced" | "fastest";
+
+const SCORING_PRESETS: Record<
+  ScoringPreset,
+  { label: string; scoring: ScoringModel }
+> = {
+  cheapest: {
+    label: "가장 저렴",
+    scoring: {
+      valueOfTimeKrwPerMin: 0,
+      walkPenaltyKrwPerMin: 0,
+      transferPenaltyKrw: 0,
+    },
+  },
+  balanced: {
+    label: "균형",
+    scoring: {
+      valueOfTimeKrwPerMin: 150,
+      walkPenaltyKrwPerMin: 100,
+      transferPenaltyKrw: 500,
+    },
+  },
+  fastest: {
+    label: "가장 빠름",
+    scoring: {
+      valueOfTimeKrwPerMin: 1000,
+      walkPenaltyKrwPerMin: 200,
+      transferPenaltyKrw: 300,
+    },
+  },
+};
+
+const TAXI_PRODUCT_OPTIONS: Record<
+  TaxiProduct,
+  { label: string; hint: string }
+> = {
+  regular: { label: "일반", hint: "중형 택시 요금으로 계산해요." },
+  deluxe: {
+    label: "모범",
+    hint: "모범 택시 요금과 호출비, 더 긴 배차 대기를 반영해요.",
+  },
+  large: {
+    label: "대형",
+    hint: "여럿이거나 짐이 많을 때. 대형 택시 요금과 호출비를 반영해요.",
+  },
+};
+
+type AccessibilityPreset = "standard" | "slow" | "stepFree";
+
+const ACCESSIBILITY_STORAGE_KEY = "beforeyoutake:accessibility";
+
+const ACCESSIBILITY_PRESETS: Record<
+  AccessibilityPreset,
+  { label: string; hint: string; profile?: AccessibilityProfile }
+> = {
+  standard: { label: "기본", hint: "보통 걸음으로 계산해요." },
+  slow: {
+    label: "천천히",
+    hint: "유모차·짐이 있을 때처럼 천천히 걷고 환승에 여유를 둬요.",
+    profile: { walkSpeedMPerMin: 50, extraTransferMin: 2 },
+  },
+  stepFree: {
+    label: "휠체어",
+    hint: "엘리베이터가 있는 역에서만 택시를 타고 내려요.",
+    profile: { walkSpeedMPerMin: 45, extraTransferMin: 4, stepFreeOnly: true },
+  },
+};
+
+function storedAccessibilityPreset(): AccessibilityPreset {
+  const stored = localStorage.getItem(ACCESSIBILITY_STORAGE_KEY);
+  return stored && stored in ACCESSIBILITY_PRESETS
+    ? (stored as AccessibilityPreset)
+    : "standard";
 }
 
-interface KakaoDocument {
-  place_name: string;
-  address_name: string;
-  y: string;
-  x: string;
+const FARE_PROFILE_STORAGE_KEY = "beforeyoutake:fareProfile";
+
+const FARE_CATEGORY_OPTIONS: Record<FareCategory, string> = {
+  adult: "일반",
+  youth: "청소년",
+  child: "어린이",
+  senior: "어르신",
+};
+
+function storedFareProfile(): FareProfile {
+  try {
+    const stored = localStorage.getItem(FARE_PROFILE_STORAGE_KEY);
+    return stored ? (JSON.parse(stored) as FareProfile) : {};
+  } catch {
+    return {};
+  }
+}
+
+function endpointLabel(path: string): string {
+  return path.startsWith("destination") ? "도착지" : "출발지";
+}
+
+function describeRouteError(data: RouteErrorResponse): string {
+  const path = data.issues?.[0]?.path ?? "";
+
+  switch (data.error) {
+    case "INVALID_COORDINATES":
+      return `${endpointLabel(
+        path
+      )} 좌표가 올바르지 않습니다. 장소를 다시 선택해주세요.`;
+    case "OUT_OF_SERVICE_AREA":
+      return `${endpointLabel(path)}가 국내 서비스 지역을 벗어났습니다.`;
+    case "INVALID_TIME":
+      return path === "arriveBy"
+        ? "도착 시간은 출발 시간 이후로 설정해주세요."
+        : "출발 시간을 확인해주세요.";
+    case "INVALID_FIELD":
+      if (path === "maxWalkMin")
+        return "최대 도보 시간은 0~120분으로 입력해주세요.";
+      if (path === "maxTimeMin")
+        return "최대 소요 시간을 1분 이상으로 입력해주세요.";
+      if (path === "passengers" || path.startsWith("fareCategories"))
+        return "인원은 1~12명으로 선택해주세요.";
+      if (path.startsWith("accessibility"))
+        return "이동 방식 설정을 다시 선택해주세요.";
+      if (path.startsWith("fareProfile"))
+        return "내 요금 설정을 다시 선택해주세요.";
+      return "검색 조건을 다시 확인해주세요.";
+    case "INVALID_BODY":
+      return "잘못된 요청입니다. 페이지를 새로고침한 뒤 다시 시도해주세요.";
+    case "IN_FLIGHT":
+      return "이전 검색이 아직 진행 중입니다. 잠시 후 다시 시도해주세요.";
+    case "RATE_LIMITED":
+      return "검색 요청이 너무 많습니다. 잠시 후 다시 시도해주세요.";
+    case "UPSTREAM_UNAVAILABLE":
+      return "경로 정보 제공처가 응답하지 않습니다. 잠시 후 다시 시도해주세요.";
+    default:
+      return "경로를 찾을 수 없습니다.";
+  }
+}
+
+function describeLocationFailure(
+  reason: CurrentLocationFailure,
+  accuracyM?: number
+): string {
+  switch (reason) {
+    case "unsupported":
+      return "이 브라우저에서는 현재 위치를 사용할 수 없습니다.";
+    case "denied":
+      return "위치 권한이 거부되었습니다. 브라우저 설정에서 위치 접근을 허용해주세요.";
+    case "timeout":
+      return "현재 위치를 확인하는 데 시간이 너무 오래 걸립니다. 다시 시도해주세요.";
+    case "inaccurate":
+      return `현재 위치의 오차가 너무 큽니다(약 ${Math.round(
+        accuracyM ?? 0
+      )}m). 출발지를 직접 검색해주세요.`;
+    default:
+      return "현재 위치를 확인하지 못했습니다. 잠시 후 다시 시도해주세요.";
+  }
 }
 
 function getCurrentTimeHHmm(): string {
@@ -32,7 +227,14 @@ function getCurrentTimeHHmm(): string {
   return `${hh}:${mm}`;
 }
 
-function buildTodayDepartureISO(timeHHmm: string): string {
+function toLocalHHmm(isoString: string): string {
+  const d = new Date(isoString);
+  const hh = String(d.getHours()).padStart(2, "0");
+  const mm = String(d.getMinutes()).padStart(2, "0");
+  return `${hh}:${mm}`;
+}
+
+function buildTodayTimeISO(timeHHmm: string): string {
   const now = new Date();
   const [hhRaw, mmRaw] = timeHHmm.split(":");
   const hh = Number.isFinite(parseInt(hhRaw, 10))
@@ -81,18 +283,41 @@ export default function RouteSearchForm({
   );
 
   const [showOriginResults, setShowOriginResults] = useState(false);
+  const [locating, setLocating] = useState(false);
+  const [originAccuracyM, setOriginAccuracyM] = useState<number | null>(null);
+  const [userPosition, setUserPosition] = useState<GeoPoint | null>(null);
   const [showDestinationResults, setShowDestinationResults] = useState(false);
 
   const [maxTimeMinInput, setMaxTimeMinInput] = useState("60");
   const [maxWalkMinInput, setMaxWalkMinInput] = useState("15");
 
-  const [departureTimeHHmm, setDepartureTimeHHmm] = useState(
-    getCurrentTimeHHmm()
+  const [timeMode, setTimeMode] = useState<TimeMode>("depart");
+  const [timeHHmm, setTimeHHmm] = useState(getCurrentTimeHHmm());
+
+  const [allowTwoTaxis, setAllowTwoTaxis] = useState(false);
+  const [taxiProduct, setTaxiProduct] = useState<TaxiProduct>("regular");
+  const [party, setParty] = useState<PartyCounts>(SOLO_PARTY);
+  const [scoringPreset, setScoringPreset] = useState<ScoringPreset>("balanced");
+  const [accessibilityPreset, setAccessibilityPreset] =
+    useState<AccessibilityPreset>(storedAccessibilityPreset);
+  const [fareProfile, setFareProfile] =
+    useState<FareProfile>(storedFareProfile);
+
+  const [recentSearches, setRecentSearches] = useState<RecentSearch[]>([]);
+  const [savedPlaces, setSavedPlaces] = useState<SavedPlace[]>([]);
+  const [commutePresets, setCommutePresets] = useState<CommutePreset[]>([]);
+  const [commuteBriefings, setCommuteBriefings] = useState<CommuteBriefing[]>(
+    []
   );
 
   const [loading, setLoading] = useState(false);
+  const [retryAfterSec, setRetryAfterSec] = useState(0);
 
-  const hasKakaoKey = !!import.meta.env.VITE_KAKAO_REST_API_KEY;
+  useEffect(() => {
+    if (retryAfterSec <= 0) return;
+    const timer = setTimeout(() => setRetryAfterSec((s) => s - 1), 1000);
+    return () => clearTimeout(timer);
+  }, [retryAfterSec]);
 
   const originWrapRef = useRef<HTMLDivElement>(null);
   const destinationWrapRef = useRef<HTMLDivElement>(null);
@@ -109,9 +334,51 @@ export default function RouteSearchForm({
     return () => document.removeEventListener("mousedown", handleClickOutside);
   }, []);
 
-  const searchPlaces = useCallback(
+  const loadRecentSearches = useCallback(async () => {
+    try {
+      setRecentSearches(await fetchRecentSearches());
+    } catch (err) {
+      console.error("Recent search load failed:", err);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadRecentSearches();
+  }, [loadRecentSearches]);
+
+  const loadSavedPlaces = useCallback(async () => {
+    try {
+      setSavedPlaces(await fetchSavedPlaces());
+    } catch (err) {
+      console.error("Saved place load failed:", err);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadSavedPlaces();
+  }, [loadSavedPlaces]);
+
+  const loadCommutes = useCallback(async () => {
+    try {
+      const [presets, briefings] = await Promise.all([
+        fetchCommutePresets(),
+        fetchTodayBriefings(),
+      ]);
+      setCommutePresets(presets);
+      setCommuteBriefings(briefings);
+    } catch (err) {
+      console.error("Commute preset load failed:", err);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadCommutes();
+  }, [loadCommutes]);
+
+  // Results are ranked towards the endpoint already chosen, or failing that
+  // towards where the user last located themselves.
+  const lookupPlaces = useCallback(
     async (query: string, isOrigin: boolean) => {
-      if (!hasKakaoKey) return;
       if (loading) return;
 
       const q = query.trim();
@@ -122,30 +389,8 @@ export default function RouteSearchForm({
       }
 
       try {
-        const response = await fetch(
-          `https://dapi.kakao.com/v2/local/search/keyword.json?query=${encodeURIComponent(
-            q
-          )}`,
-          {
-            headers: {
-              Authorization: `KakaoAK ${
-                import.meta.env.VITE_KAKAO_REST_API_KEY
-              }`,
-            },
-          }
-        );
-
-        if (!response.ok) throw new Error(`API Error: ${response.status}`);
-
-        const data = await response.json();
-        const results: PlaceResult[] = (data.documents || []).map(
-          (doc: KakaoDocument) => ({
-            name: doc.place_name,
-            address: doc.address_name,
-            lat: parseFloat(doc.y),
-            lng: parseFloat(doc.x),
-          })
-        );
+        const near = (isOrigin ? destination : origin) ?? userPosition;
+        const results = await searchPlaces(q, near ?? undefined);
 
         if (isOrigin) {
           setOriginResults(results);
@@ -155,31 +400,32 @@ export default function RouteSearchForm({
           if (!destination) setShowDestinationResults(true);
         }
       } catch (err) {
-        console.error("Kakao place search failed:", err);
+        console.error("Place search failed:", err);
         onError("장소 검색에 실패했습니다. 잠시 후 다시 시도해주세요.");
         if (isOrigin) setOriginResults([]);
         else setDestinationResults([]);
       }
     },
-    [hasKakaoKey, onError, origin, destination, loading]
+    [onError, origin, destination, userPosition, loading]
   );
 
   useEffect(() => {
     if (origin) return;
     if (loading) return;
-    const t = setTimeout(() => searchPlaces(originQuery, true), 250);
+    const t = setTimeout(() => lookupPlaces(originQuery, true), 250);
     return () => clearTimeout(t);
-  }, [originQuery, origin, searchPlaces, loading]);
+  }, [originQuery, origin, lookupPlaces, loading]);
 
   useEffect(() => {
     if (destination) return;
     if (loading) return;
-    const t = setTimeout(() => searchPlaces(destinationQuery, false), 250);
+    const t = setTimeout(() => lookupPlaces(destinationQuery, false), 250);
     return () => clearTimeout(t);
-  }, [destinationQuery, destination, searchPlaces, loading]);
+  }, [destinationQuery, destination, lookupPlaces, loading]);
 
   const selectOrigin = (place: PlaceResult) => {
     if (loading) return;
+    setOriginAccuracyM(null);
     setOrigin({ name: place.name, lat: place.lat, lng: place.lng });
     setOriginQuery(place.name);
     setOriginResults([]);
@@ -194,9 +440,30 @@ export default function RouteSearchForm({
     setShowDestinationResults(false);
   };
 
+  const fillOriginFromCurrentLocation = async () => {
+    if (loading || locating) return;
+    setLocating(true);
+    try {
+      const result = await locateCurrentPosition();
+      if (!result.ok) {
+        onError(describeLocationFailure(result.reason, result.accuracyM));
+        return;
+      }
+      setOrigin(result.location);
+      setOriginQuery(result.location.name);
+      setOriginResults([]);
+      setShowOriginResults(false);
+      setOriginAccuracyM(result.accuracyM);
+      setUserPosition({ lat: result.location.lat, lng: result.location.lng });
+    } finally {
+      setLocating(false);
+    }
+  };
+
   const resetOriginForReinput = () => {
     if (loading) return;
     setOrigin(null);
+    setOriginAccuracyM(null);
     setOriginQuery("");
     setOriginResults([]);
     setShowOriginResults(true);
@@ -210,39 +477,226 @@ export default function RouteSearchForm({
     setShowDestinationResults(true);
   };
 
-  const handleSubmit = async (e: React.FormEvent) => {
-    e.preventDefault();
+  const selectSavedPlace = (saved: SavedPlace, isOrigin: boolean) => {
+    if (loading) return;
+    const { location } = saved;
+    if (isOrigin) {
+      selectOrigin({ ...location, address: saved.address ?? "" });
+    } else {
+      selectDestination({ ...location, address: saved.address ?? "" });
+    }
+  };
+
+  const handleSavePlace = async (
+    place: PlaceResult,
+    kind: SavedPlaceKind,
+    label?: string
+  ) => {
+    try {
+      await savePlace(kind, place, label);
+      await loadSavedPlaces();
+    } catch (err) {
+      console.error("Saved place save failed:", err);
+      onError("장소를 저장하지 못했습니다.");
+    }
+  };
+
+  const handleDeleteSavedPlace = async (saved: SavedPlace) => {
+    if (loading) return;
+    try {
+      await deleteSavedPlace(saved.id);
+      setSavedPlaces((places) => places.filter((p) => p.id !== saved.id));
+    } catch (err) {
+      console.error("Saved place delete failed:", err);
+      onError("저장한 장소를 삭제하지 못했습니다.");
+    }
+  };
+
+  const applyRecentSearch = (search: RecentSearch) => {
+    if (loading) return;
+    setOrigin(search.origin);
+    setOriginAccuracyM(null);
+    setOriginQuery(search.origin.name);
+    setOriginResults([]);
+    setShowOriginResults(false);
+    setDestination(search.destination);
+    setDestinationQuery(search.destination.name);
+    setDestinationResults([]);
+    setShowDestinationResults(false);
+    setMaxTimeMinInput(String(search.maxTimeMin));
+    setMaxWalkMinInput(String(search.maxWalkMin));
+    setAllowTwoTaxis(search.taxiMaxSegments >= 2);
+    if (search.arriveBy) {
+      setTimeMode("arrive");
+      setTimeHHmm(toLocalHHmm(search.arriveBy));
+    } else {
+      setTimeMode("depart");
+      if (search.departureTime) setTimeHHmm(toLocalHHmm(search.departureTime));
+    }
+  };
+
+  const applyCommutePreset = (preset: CommutePreset) => {
+    if (loading) return;
+    const { request } = preset;
+    setOrigin(request.origin);
+    setOriginAccuracyM(null);
+    setOriginQuery(request.origin.name);
+    setOriginResults([]);
+    setShowOriginResults(false);
+    setDestination(request.destination);
+    setDestinationQuery(request.destination.name);
+    setDestinationResults([]);
+    setShowDestinationResults(false);
+    if (request.maxTimeMin) setMaxTimeMinInput(String(request.maxTimeMin));
+    setMaxWalkMinInput(String(request.maxWalkMin));
+    setAllowTwoTaxis((request.taxiMaxSegments ?? 1) >= 2);
+    setTaxiProduct(request.taxiProduct ?? "regular");
+    const youth = request.fareCategories?.youth ?? 0;
+    const child = request.fareCategories?.child ?? 0;
+    const senior = request.fareCategories?.senior ?? 0;
+    setParty({
+      adult: (request.passengers ?? 1) - youth - child - senior,
+      youth,
+      child,
+      senior,
+    });
+    setTimeMode(preset.timeMode);
+    setTimeHHmm(preset.timeHHmm);
+    const scoring = (Object.keys(SCORING_PRESETS) as ScoringPreset[]).find(
+      (key) =>
+        JSON.stringify(SCORING_PRESETS[key].scoring) ===
+        JSON.stringify(request.scoring)
+    );
+    setScoringPreset(scoring ?? "balanced");
+    const accessibility = (
+      Object.keys(ACCESSIBILITY_PRESETS) as AccessibilityPreset[]
+    ).find(
+      (key) =>
+        JSON.stringify(ACCESSIBILITY_PRESETS[key].profile) ===
+        JSON.stringify(request.accessibility)
+    );
+    selectAccessibilityPreset(accessibility ?? "standard");
+    selectFareProfile(request.fareProfile ?? {});
+  };
+
+  const applyCommuteBriefing = (briefing: CommuteBriefing) => {
+    const preset = commutePresets.find((p) => p.id === briefing.presetId);
+    if (preset) applyCommutePreset(preset);
+  };
+
+  const handleSaveCommute = async () => {
+    if (loading) return;
+    const request = buildCommuteRequest();
+    if (!request) return;
+
+    const label = window
+      .prompt("출퇴근 프리셋 이름을 입력하세요", DEFAULT_COMMUTE_LABEL)
+      ?.trim();
+    if (!label) return;
+
+    try {
+      await saveCommutePreset(label, request, timeMode, timeHHmm);
+      await loadCommutes();
+    } catch (err) {
+      console.error("Commute preset save failed:", err);
+      onError("출퇴근 프리셋을 저장하지 못했습니다.");
+    }
+  };
+
+  const handleDeleteCommute = async (preset: CommutePreset) => {
     if (loading) return;
+    try {
+      await deleteCommutePreset(preset.id);
+      setCommutePresets((presets) => presets.filter((p) => p.id !== preset.id));
+      setCommuteBriefings((briefings) =>
+        briefings.filter((b) => b.presetId !== preset.id)
+      );
+    } catch (err) {
+      console.error("Commute preset delete failed:", err);
+      onError("출퇴근 프리셋을 삭제하지 못했습니다.");
+    }
+  };
+
+  const selectAccessibilityPreset = (preset: AccessibilityPreset) => {
+    setAccessibilityPreset(preset);
+    localStorage.setItem(ACCESSIBILITY_STORAGE_KEY, preset);
+  };
+
+  const selectFareProfile = (profile: FareProfile) => {
+    setFareProfile(profile);
+    localStorage.setItem(FARE_PROFILE_STORAGE_KEY, JSON.stringify(profile));
+  };
+
+  const handleClearHistory = async () => {
+    if (loading) return;
+    try {
+      await clearSearchHistory();
+      setRecentSearches([]);
+    } catch (err) {
+      console.error("Search history clear failed:", err);
+      onError("검색 기록을 삭제하지 못했습니다.");
+    }
+  };
 
+  // Everything the form specifies except the time, which a search fixes to
+  // today and a commute preset repeats daily.
+  const buildCommuteRequest = (): CommuteRequest | null => {
     if (!origin || !destination) {
       onError("출발지와 목적지를 모두 선택해주세요.");
-      return;
+      return null;
     }
 
+    const maxTimeMin = Number.isFinite(parseInt(maxTimeMinInput, 10))
+      ? parseInt(maxTimeMinInput, 10)
+      : 60;
+
+    const maxWalkMin = Number.isFinite(parseInt(maxWalkMinInput, 10))
+      ? parseInt(maxWalkMinInput, 10)
+      : 15;
+
+    return {
+      origin,
+      destination,
+      maxTimeMin,
+      maxWalkMin,
+      requireTaxi: false,
+      taxiMaxSegments: allowTwoTaxis ? 2 : 1,
+      taxiProduct,
+      ...(partySize(party) > 1 && { passengers: partySize(party) }),
+      ...((party.youth > 0 || party.child > 0 || party.senior > 0) && {
+        fareCategories: {
+          youth: party.youth,
+          child: party.child,
+          senior: party.senior,
+        },
+      }),
+      scoring: SCORING_PRESETS[scoringPreset].scoring,
+      accessibility: ACCESSIBILITY_PRESETS[accessibilityPreset].profile,
+      ...((fareProfile.category || fareProfile.pass) && { fareProfile }),
+    };
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (loading || retryAfterSec > 0) return;
+
+    const commuteRequest = buildCommuteRequest();
+    if (!commuteRequest) return;
+
     setLoading(true);
     onLoadingChange(true);
 
     try {
-      const departureISO = buildTodayDepartureISO(departureTimeHHmm);
-
-      const maxTimeMin = Number.isFinite(parseInt(maxTimeMinInput, 10))
-        ? parseInt(maxTimeMinInput, 10)
-        : 60;
-
-      const maxWalkMin = Number.isFinite(parseInt(maxWalkMinInput, 10))
-        ? parseInt(maxWalkMinInput, 10)
-        : 15;
+      const timeISO = buildTodayTimeISO(timeHHmm);
 
       const request: SearchRequest = {
-        origin,
-        destination,
-        maxTimeMin,
-        maxWalkMin,
-        requireTaxi: false,
-        taxiMaxSegments: 1,
-        departureTime: departureISO,
+        ...commuteRequest,
+        ...(timeMode === "arrive"
+          ? { arriveBy: timeISO }
+          : { departureTime: timeISO }),
+        clientId: getClientId(),
         debug: false,
-      } as any;
+      };
 
       const apiUrl = `${
         import.meta.env.VITE_SUPABASE_URL
@@ -257,16 +711,19 @@ export default function RouteSearchForm({
       const data = await response.json();
 
       if (!response.ok) {
-        if (data?.error === "IN_FLIGHT") {
-          onError("요청이 많습니다. 잠시 후 다시 시도해주세요.");
-        } else {
-          onError(data?.error || "경로를 찾을 수 없습니다.");
-        }
+        const error = data as RouteErrorResponse;
+        const retryAfter =
+          error.retryAfterSec ??
+          Number(response.headers.get("Retry-After") ?? 0);
+        if (retryAfter > 0) setRetryAfterSec(Math.ceil(retryAfter));
+        onError(describeRouteError(error));
         return;
       }
 
-      if (data.success) onSearch(data as RouteResponse);
-      else onError(data.error || "경로를 찾을 수 없습니다.");
+      if (data.success) {
+        onSearch(data as RouteResponse);
+        loadRecentSearches();
+      } else onError(data.error || "경로를 찾을 수 없습니다.");
     } catch (err) {
       onError(
         err instanceof Error ? err.message : "알 수 없는 오류가 발생했습니다."
@@ -339,6 +796,43 @@ export default function RouteSearchForm({
       </style>
 
       <form onSubmit={handleSubmit} className="pb-16">
+        {(commuteBriefings.length > 0 || commutePresets.length > 0) && (
+          <>
+            <Row>
+              <div className="space-y-3">
+                <CommuteBanner
+                  briefings={commuteBriefings}
+                  disabled={loading}
+                  onSelect={applyCommuteBriefing}
+                />
+                <CommutePresetList
+                  presets={commutePresets}
+                  disabled={loading}
+                  onSelect={applyCommutePreset}
+                  onDelete={handleDeleteCommute}
+                />
+              </div>
+            </Row>
+
+            <div className="h-px bg-gray-100" />
+          </>
+        )}
+
+        {recentSearches.length > 0 && (
+          <>
+            <Row>
+              <RecentSearchList
+                searches={recentSearches}
+                disabled={loading}
+                onSelect={applyRecentSearch}
+                onClear={handleClearHistory}
+              />
+            </Row>
+
+            <div className="h-px bg-gray-100" />
+          </>
+        )}
+
         <Row>
           <FieldLabel>출발지</FieldLabel>
           <div ref={originWrapRef} className="relative">
@@ -355,34 +849,51 @@ export default function RouteSearchForm({
                   if (loading) return;
                   if (origin) resetOriginForReinput();
                 }}
-                placeholder="출발지를 검색하세요"
-                disabled={!hasKakaoKey || loading}
+                placeholder={
+                  locating ? "현재 위치 확인 중..." : "출발지를 검색하세요"
+                }
+                disabled={loading || locating}
                 className="w-full text-[16px] leading-[20px] text-gray-900 placeholder:text-gray-400 outline-none disabled:bg-transparent [-webkit-text-size-adjust:100%]"
               />
+              <button
+                type="button"
+                onClick={fillOriginFromCurrentLocation}
+                disabled={loading || locating}
+                className="flex shrink-0 items-center gap-1 rounded-lg bg-gray-100 px-2 py-1 text-[12px] font-semibold text-gray-700 hover:bg-gray-200 disabled:text-gray-400"
+              >
+                <LocateFixed
+                  className={`h-3.5 w-3.5 ${locating ? "animate-pulse" : ""}`}
+                />
+                현재 위치
+              </button>
             </div>
 
+            {origin &&
+              originAccuracyM !== null &&
+              originAccuracyM > APPROXIMATE_ACCURACY_M && (
+                <div className="mt-2 text-[12px] text-amber-600">
+                  위치 오차가 약 {Math.round(originAccuracyM)}m예요. 정확하지
+                  않다면 출발지를 직접 검색해주세요.
+                </div>
+              )}
+
             {showOriginResults &&
               !origin &&
               originResults.length > 0 &&
               !loading && (
-                <div className="absolute z-20 mt-2 w-full overflow-hidden rounded-xl border border-gray-200 bg-white shadow-[0_10px_24px_rgba(0,0,0,0.10)]">
-                  {originResults.slice(0, 8).map((r, idx) => (
-                    <button
-                      key={idx}
-                      type="button"
-                      onClick={() => selectOrigin(r)}
-                      className="w-full border-b border-gray-100 px-4 py-3 text-left hover:bg-gray-50 last:border-b-0"
-                    >
-                      <div className="text-[14px] font-medium text-gray-900">
-                        {r.name}
-                      </div>
-                      <div className="mt-0.5 text-[12px] text-gray-500">
-                        {r.address}
-                      </div>
-                    </button>
-                  ))}
-                </div>
+                <PlaceResultList
+                  results={originResults}
+                  onSelect={selectOrigin}
+                  onSave={handleSavePlace}
+                />
               )}
+
+            <SavedPlaceChips
+              places={savedPlaces}
+              disabled={loading}
+              onSelect={(saved) => selectSavedPlace(saved, true)}
+              onDelete={handleDeleteSavedPlace}
+            />
           </div>
         </Row>
 
@@ -406,7 +917,7 @@ export default function RouteSearchForm({
                   if (destination) resetDestinationForReinput();
                 }}
                 placeholder="목적지를 검색하세요"
-                disabled={!hasKakaoKey || loading}
+                disabled={loading}
                 className="w-full text-[16px] leading-[20px] text-gray-900 placeholder:text-gray-400 outline-none disabled:bg-transparent [-webkit-text-size-adjust:100%]"
               />
             </div>
@@ -415,36 +926,55 @@ export default function RouteSearchForm({
               !destination &&
               destinationResults.length > 0 &&
               !loading && (
-                <div className="absolute z-20 mt-2 w-full overflow-hidden rounded-xl border border-gray-200 bg-white shadow-[0_10px_24px_rgba(0,0,0,0.10)]">
-                  {destinationResults.slice(0, 8).map((r, idx) => (
-                    <button
-                      key={idx}
-                      type="button"
-                      onClick={() => selectDestination(r)}
-                      className="w-full border-b border-gray-100 px-4 py-3 text-left hover:bg-gray-50 last:border-b-0"
-                    >
-                      <div className="text-[14px] font-medium text-gray-900">
-                        {r.name}
-                      </div>
-                      <div className="mt-0.5 text-[12px] text-gray-500">
-                        {r.address}
-                      </div>
-                    </button>
-                  ))}
-                </div>
+                <PlaceResultList
+                  results={destinationResults}
+                  onSelect={selectDestination}
+                  onSave={handleSavePlace}
+                />
               )}
+
+            <SavedPlaceChips
+              places={savedPlaces}
+              disabled={loading}
+              onSelect={(saved) => selectSavedPlace(saved, false)}
+              onDelete={handleDeleteSavedPlace}
+            />
           </div>
         </Row>
 
         <div className="h-px bg-gray-100" />
 
         <Row>
-          <FieldLabel>출발 시간</FieldLabel>
+          <div className="mb-2 grid grid-cols-2 gap-1 rounded-xl bg-gray-100 p-1">
+            {(
+              [
+                ["depart", "출발 시각"],
+                ["arrive", "도착 시각"],
+              ] as const
+            ).map(([mode, label]) => (
+              <button
+                key={mode}
+                type="button"
+                disabled={loading}
+                onClick={() => setTimeMode(mode)}
+                className={`rounded-lg py-2 text-[13px] font-semibold ${
+                  timeMode === mode
+                    ? "bg-white text-gray-900 shadow-sm"
+                    : "text-gray-500"
+                }`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+          <FieldLabel>
+            {timeMode === "arrive" ? "이 시각까지 도착" : "출발 시간"}
+          </FieldLabel>
           <div className="w-full rounded-xl border border-gray-200 bg-white px-3 py-3 focus-within:border-blue-500">
             <TimePicker
-              value={departureTimeHHmm}
+              value={timeHHmm}
               onChange={(v) => {
-                if (typeof v === "string") setDepartureTimeHHmm(v);
+                if (typeof v === "string") setTimeHHmm(v);
               }}
               disableClock
               clearIcon={null}
@@ -455,6 +985,8 @@ export default function RouteSearchForm({
           </div>
           <div className="mt-2 text-[12px] text-gray-500">
             날짜는 <span className="font-medium">오늘</span>만 조회 가능해요.
+            {timeMode === "arrive" &&
+              " 지금 출발해서 도착 시각에 맞출 수 있는 경로만 보여줘요."}
           </div>
         </Row>
 
@@ -469,8 +1001,11 @@ export default function RouteSearchForm({
                 inputMode="numeric"
                 min={10}
                 max={180}
-                value={maxTimeMinInput}
-                disabled={loading}
+                value={timeMode === "arrive" ? "" : maxTimeMinInput}
+                placeholder={
+                  timeMode === "arrive" ? "도착 시각 기준" : undefined
+                }
+                disabled={loading || timeMode === "arrive"}
                 onChange={(e) => {
                   const v = e.target.value;
                   if (/^\d*$/.test(v)) setMaxTimeMinInput(v);
@@ -496,6 +1031,186 @@ export default function RouteSearchForm({
             </div>
           </div>
         </Row>
+
+        <div className="h-px bg-gray-100" />
+
+        <Row>
+          <FieldLabel>추천 기준</FieldLabel>
+          <div className="grid grid-cols-3 gap-1 rounded-xl bg-gray-100 p-1">
+            {(Object.keys(SCORING_PRESETS) as ScoringPreset[]).map((preset) => (
+              <button
+                key={preset}
+                type="button"
+                disabled={loading}
+                onClick={() => setScoringPreset(preset)}
+                className={`rounded-lg py-2 text-[13px] font-semibold ${
+                  scoringPreset === preset
+                    ? "bg-white text-gray-900 shadow-sm"
+                    : "text-gray-500"
+                }`}
+              >
+                {SCORING_PRESETS[preset].label}
+              </button>
+            ))}
+          </div>
+        </Row>
+
+        <div className="h-px bg-gray-100" />
+
+        <Row>
+          <FieldLabel>이동 방식</FieldLabel>
+          <div className="grid grid-cols-3 gap-1 rounded-xl bg-gray-100 p-1">
+            {(Object.keys(ACCESSIBILITY_PRESETS) as AccessibilityPreset[]).map(
+              (preset) => (
+                <button
+                  key={preset}
+                  type="button"
+                  disabled={loading}
+                  onClick={() => selectAccessibilityPreset(preset)}
+                  className={`rounded-lg py-2 text-[13px] font-semibold ${
+                    accessibilityPreset === preset
+                      ? "bg-white text-gray-900 shadow-sm"
+                      : "text-gray-500"
+                  }`}
+                >
+                  {ACCESSIBILITY_PRESETS[preset].label}
+                </button>
+              )
+            )}
+          </div>
+          <div className="mt-1.5 text-[12px] text-gray-500">
+            {ACCESSIBILITY_PRESETS[accessibilityPreset].hint}
+          </div>
+        </Row>
+
+        <div className="h-px bg-gray-100" />
+
+        <Row>
+          <FieldLabel>내 요금</FieldLabel>
+          <div className="grid grid-cols-4 gap-1 rounded-xl bg-gray-100 p-1">
+            {(Object.keys(FARE_CATEGORY_OPTIONS) as FareCategory[]).map(
+              (category) => (
+                <button
+                  key={category}
+                  type="button"
+                  disabled={loading}
+                  onClick={() =>
+                    selectFareProfile({
+                      ...fareProfile,
+                      category: category === "adult" ? undefined : category,
+                    })
+                  }
+                  className={`rounded-lg py-2 text-[13px] font-semibold ${
+                    (fareProfile.category ?? "adult") === category
+                      ? "bg-white text-gray-900 shadow-sm"
+                      : "text-gray-500"
+                  }`}
+                >
+                  {FARE_CATEGORY_OPTIONS[category]}
+                </button>
+              )
+            )}
+          </div>
+          <label className="mt-2 flex items-center gap-2 text-[13px] text-gray-700">
+            <input
+              type="checkbox"
+              disabled={loading}
+              checked={fareProfile.pass === "climate-card"}
+              onChange={(e) =>
+                selectFareProfile({
+                  ...fareProfile,
+                  pass: e.target.checked ? "climate-card" : undefined,
+                })
+              }
+              className="h-4 w-4 rounded border-gray-300"
+            />
+            기후동행카드 사용
+          </label>
+          {fareProfile.pass === "climate-card" && (
+            <div className="mt-1.5 text-[12px] text-gray-500">
+              서울 시내버스·지하철은 0원으로 계산해요. 광역버스와 신분당선, 서울
+              밖 구간은 요금을 내요.
+            </div>
+          )}
+        </Row>
+
+        <div className="h-px bg-gray-100" />
+
+        <Row>
+          <FieldLabel>인원</FieldLabel>
+          <PartySelector value={party} disabled={loading} onChange={setParty} />
+          {partySize(party) > 1 && (
+            <div className="mt-1.5 text-[12px] text-gray-500">
+              대중교통은 인원수만큼, 택시는 함께 타는 요금으로 계산해요.
+            </div>
+          )}
+        </Row>
+
+        <div className="h-px bg-gray-100" />
+
+        <Row>
+          <FieldLabel>택시 종류</FieldLabel>
+          <div className="grid grid-cols-3 gap-1 rounded-xl bg-gray-100 p-1">
+            {(Object.keys(TAXI_PRODUCT_OPTIONS) as TaxiProduct[]).map(
+              (product) => (
+                <button
+                  key={product}
+                  type="button"
+                  disabled={loading}
+                  onClick={() => setTaxiProduct(product)}
+                  className={`rounded-lg py-2 text-[13px] font-semibold ${
+                    taxiProduct === product
+                      ? "bg-white text-gray-900 shadow-sm"
+                      : "text-gray-500"
+                  }`}
+                >
+                  {TAXI_PRODUCT_OPTIONS[product].label}
+                </button>
+              )
+            )}
+          </div>
+          <div className="mt-1.5 text-[12px] text-gray-500">
+            {TAXI_PRODUCT_OPTIONS[taxiProduct].hint}
+          </div>
+        </Row>
+
+        <div className="h-px bg-gray-100" />
+
+        <Row>
+          <label className="flex items-center justify-between gap-3">
+            <div>
+              <div className="text-[14px] font-medium text-gray-900">
+                택시 양쪽 허용
+              </div>
+              <div className="mt-0.5 text-[12px] text-gray-500">
+                택시 → 대중교통 → 택시 조합도 찾아봐요.
+              </div>
+            </div>
+            <input
+              type="checkbox"
+              checked={allowTwoTaxis}
+              disabled={loading}
+              onChange={(e) => setAllowTwoTaxis(e.target.checked)}
+              className="h-5 w-5 shrink-0 accent-blue-600"
+            />
+          </label>
+        </Row>
+
+        <div className="h-px bg-gray-100" />
+
+        <Row>
+          <button
+            type="button"
+            onClick={handleSaveCommute}
+            disabled={!canSubmit || loading}
+            className="text-[13px] font-medium text-blue-600 disabled:text-gray-300"
+          >
+            이 조건을 출퇴근 프리셋으로 저장
+          </button>
+          <div className="mt-0.5 text-[12px] text-gray-500">
+            평일마다 출발 전에 미리 계산해서 알려드려요.
+          </div>
+        </Row>
       </form>
 
       <div className="absolute bottom-0 left-0 right-0 p-3">
@@ -507,10 +1222,14 @@ export default function RouteSearchForm({
               ?.previousSibling as HTMLFormElement | null;
             form?.requestSubmit();
           }}
-          disabled={!canSubmit || !hasKakaoKey || loading}
+          disabled={!canSubmit || loading || retryAfterSec > 0}
           className="w-full rounded-2xl bg-blue-600 py-4 text-[15px] font-semibold text-white shadow-[0_8px_20px_rgba(37,99,235,0.25)] disabled:bg-gray-300 disabled:shadow-none"
         >
-          {loading ? "검색 중..." : "경로 검색"}
+          {loading
+            ? "검색 중..."
+            : retryAfterSec > 0
+            ? `${retryAfterSec}초 후 다시 검색할 수 있어요`
+            : "경로 검색"}
         </button>
       </div>
     </div>
@@ -0,0 +1,61 @@
+import { useState } from "react";
+import { Briefcase, Home, MapPin, X } from "lucide-react";
+import { SavedPlace, SavedPlaceKind } from "../types";
+
+interface Props {
+  places: SavedPlace[];
+  disabled: boolean;
+  onSelect: (place: SavedPlace) => void;
+  onDelete: (place: SavedPlace) => void;
+}
+
+const KIND_ICONS: Record<SavedPlaceKind, typeof Home> = {
+  home: Home,
+  work: Briefcase,
+  custom: MapPin,
+};
+
+export default function SavedPlaceChips({
+  places,
+  disabled,
+  onSelect,
+  onDelete,
+}: Props) {
+  const [editing, setEditing] = useState(false);
+
+  if (places.length === 0) return null;
+
+  return (
+    <div className="mt-2 flex flex-wrap items-center gap-1.5">
+      {places.map((place) => {
+        const Icon = KIND_ICONS[place.kind];
+        return (
+          <button
+            key={place.id}
+            type="button"
+            disabled={disabled}
+            onClick={() => (editing ? onDelete(place) : onSelect(place))}
+            title={place.address ?? place.location.name}
+            className={`flex items-center gap-1 rounded-full border px-2.5 py-1 text-[12px] font-medium disabled:opacity-50 ${
+              editing
+                ? "border-red-200 bg-red-50 text-red-600"
+                : "border-gray-200 bg-white text-gray-700 hover:bg-gray-50"
+            }`}
+          >
+            <Icon className="h-3.5 w-3.5" />
+            {place.label}
+            {editing && <X className="h-3 w-3" />}
+          </button>
+        );
+      })}
+      <button
+        type="button"
+        disabled={disabled}
+        onClick={() => setEditing((v) => !v)}
+        className="px-1 text-[12px] text-gray-400 hover:text-gray-600 disabled:opacity-50"
+      >
+        {editing ? "완료" : "편집"}
+      </button>
+    </div>
+  );
+}
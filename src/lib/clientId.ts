@@ -0,0 +1,12 @@
+const CLIENT_ID_STORAGE_KEY = 'beforeyoutake:client-id';
+
+// There are no accounts: a random id kept in localStorage identifies the
+// browser for search history and saved places.
+export function getClientId(): string {
+  let clientId = localStorage.getItem(CLIENT_ID_STORAGE_KEY);
+  if (!clientId) {
+    clientId = crypto.randomUUID();
+    localStorage.setItem(CLIENT_ID_STORAGE_KEY, clientId);
+  }
+  return clientId;
+}
@@ -0,0 +1,13 @@
+// Route colors arrive as "#RRGGBB", "#RGB" or, from TMAP and GTFS, as bare
+// "RRGGBB". Returns "#RRGGBB", or null for anything else.
+export function normalizeHex(color: string | undefined): string | null {
+  const hex = color?.trim().replace(/^#/, '');
+  if (!hex) return null;
+
+  if (/^[0-9a-fA-F]{6}$/.test(hex)) return `#${hex.toUpperCase()}`;
+  if (/^[0-9a-fA-F]{3}$/.test(hex)) {
+    const [r, g, b] = hex;
+    return `#${(r + r + g + g + b + b).toUpperCase()}`;
+  }
+  return null;
+}
@@ -0,0 +1,109 @@
+import { getClientId } from './clientId';
+import { supabase } from './supabase';
+import {
+  CommuteBriefing,
+  CommutePreset,
+  CommuteRequest,
+  CommuteTimeMode,
+} from '../types';
+
+const WEEKDAYS = [1, 2, 3, 4, 5];
+const KST_OFFSET_MS = 9 * 60 * 60 * 1000;
+
+interface CommutePresetRow {
+  id: string;
+  label: string;
+  request: CommuteRequest;
+  time_mode: CommuteTimeMode;
+  time_of_day: string;
+  weekdays: number[];
+}
+
+interface CommuteBriefingRow {
+  id: string;
+  preset_id: string;
+  headline: string;
+  leave_by: string | null;
+  service_date: string;
+  commute_presets: { label: string } | null;
+}
+
+function toCommutePreset(row: CommutePresetRow): CommutePreset {
+  return {
+    id: row.id,
+    label: row.label,
+    request: row.request,
+    timeMode: row.time_mode,
+    timeHHmm: row.time_of_day.slice(0, 5),
+    weekdays: row.weekdays,
+  };
+}
+
+// Briefings are keyed by the KST date the evaluation job ran on.
+function todayKst(): string {
+  return new Date(Date.now() + KST_OFFSET_MS).toISOString().slice(0, 10);
+}
+
+export async function fetchCommutePresets(): Promise<CommutePreset[]> {
+  const { data, error } = await supabase
+    .from('commute_presets')
+    .select('id, label, request, time_mode, time_of_day, weekdays')
+    .eq('active', true)
+    .order('time_of_day', { ascending: true });
+
+  if (error) throw new Error(error.message);
+  return ((data ?? []) as CommutePresetRow[]).map(toCommutePreset);
+}
+
+export async function saveCommutePreset(
+  label: string,
+  request: CommuteRequest,
+  timeMode: CommuteTimeMode,
+  timeHHmm: string,
+  weekdays: number[] = WEEKDAYS
+): Promise<CommutePreset> {
+  const { data, error } = await supabase
+    .from('commute_presets')
+    .insert({
+      client_id: getClientId(),
+      label: label.trim(),
+      request,
+      time_mode: timeMode,
+      time_of_day: timeHHmm,
+      weekdays,
+    })
+    .select('id, label, request, time_mode, time_of_day, weekdays')
+    .single();
+
+  if (error) throw new Error(error.message);
+  return toCommutePreset(data as CommutePresetRow);
+}
+
+export async function deleteCommutePreset(id: string): Promise<void> {
+  const { error } = await supabase
+    .from('commute_presets')
+    .delete()
+    .eq('id', id);
+
+  if (error) throw new Error(error.message);
+}
+
+export async function fetchTodayBriefings(): Promise<CommuteBriefing[]> {
+  const { data, error } = await supabase
+    .from('commute_briefings')
+    .select(
+      'id, preset_id, headline, leave_by, service_date, commute_presets(label)'
+    )
+    .eq('service_date', todayKst())
+    .order('leave_by', { ascending: true });
+
+  if (error) throw new Error(error.message);
+  return ((data ?? []) as unknown as CommuteBriefingRow[]).map((row) => ({
+    id: row.id,
+    presetId: row.preset_id,
+    label: row.commute_presets?.label ?? '',
+    headline: row.headline,
+    leaveBy: row.leave_by ?? undefined,
+    serviceDate: row.service_date,
+  }));
+}
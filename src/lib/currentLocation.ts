@@ -0,0 +1,66 @@
+import { Location } from '../types';
+import { reverseGeocode } from './places';
+
+// Fixes worse than this are too far off to route from; between the two
+// thresholds the fix is used but flagged as approximate.
+const MAX_ACCURACY_M = 1000;
+export const APPROXIMATE_ACCURACY_M = 100;
+const POSITION_TIMEOUT_MS = 10000;
+const POSITION_MAX_AGE_MS = 60000;
+const FALLBACK_NAME = '현재 위치';
+
+export type CurrentLocationFailure =
+  | 'unsupported'
+  | 'denied'
+  | 'unavailable'
+  | 'timeout'
+  | 'inaccurate';
+
+export type CurrentLocationResult =
+  | { ok: true; location: Location; accuracyM: number }
+  | { ok: false; reason: CurrentLocationFailure; accuracyM?: number };
+
+function getPosition(): Promise<GeolocationPosition> {
+  return new Promise((resolve, reject) =>
+    navigator.geolocation.getCurrentPosition(resolve, reject, {
+      enableHighAccuracy: true,
+      timeout: POSITION_TIMEOUT_MS,
+      maximumAge: POSITION_MAX_AGE_MS,
+    })
+  );
+}
+
+// Falls back to a generic name: the coordinates are what the search needs.
+async function nameOf(lat: number, lng: number): Promise<string> {
+  try {
+    const place = await reverseGeocode({ lat, lng });
+    return place?.name || FALLBACK_NAME;
+  } catch (err) {
+    console.error('Reverse geocoding failed:', err);
+    return FALLBACK_NAME;
+  }
+}
+
+export async function locateCurrentPosition(): Promise<CurrentLocationResult> {
+  if (!('geolocation' in navigator)) {
+    return { ok: false, reason: 'unsupported' };
+  }
+
+  let position: GeolocationPosition;
+  try {
+    position = await getPosition();
+  } catch (err) {
+    const code = (err as GeolocationPositionError).code;
+    if (code === 1) return { ok: false, reason: 'denied' };
+    if (code === 3) return { ok: false, reason: 'timeout' };
+    return { ok: false, reason: 'unavailable' };
+  }
+
+  const { latitude: lat, longitude: lng, accuracy } = position.coords;
+  if (accuracy > MAX_ACCURACY_M) {
+    return { ok: false, reason: 'inaccurate', accuracyM: accuracy };
+  }
+
+  const name = await nameOf(lat, lng);
+  return { ok: true, location: { name, lat, lng }, accuracyM: accuracy };
+}
@@ -0,0 +1,98 @@
+// Loads the Kakao Maps JavaScript SDK on first use. Only the parts of the
+// SDK the route map uses are typed here.
+
+export interface KakaoLatLng {
+  getLat(): number;
+  getLng(): number;
+}
+
+export interface KakaoLatLngBounds {
+  extend(latlng: KakaoLatLng): void;
+}
+
+export interface KakaoMap {
+  setBounds(
+    bounds: KakaoLatLngBounds,
+    paddingTop?: number,
+    paddingRight?: number,
+    paddingBottom?: number,
+    paddingLeft?: number
+  ): void;
+  relayout(): void;
+}
+
+export interface KakaoPolylineOptions {
+  strokeWeight?: number;
+  strokeColor?: string;
+  strokeOpacity?: number;
+  strokeStyle?: 'solid' | 'shortdash' | 'shortdot' | 'dash';
+}
+
+export interface KakaoPolyline {
+  setMap(map: KakaoMap | null): void;
+  setOptions(options: KakaoPolylineOptions): void;
+  setZIndex(zIndex: number): void;
+}
+
+export interface KakaoCustomOverlay {
+  setMap(map: KakaoMap | null): void;
+}
+
+export interface KakaoMapsApi {
+  LatLng: new (lat: number, lng: number) => KakaoLatLng;
+  LatLngBounds: new () => KakaoLatLngBounds;
+  Map: new (
+    container: HTMLElement,
+    options: { center: KakaoLatLng; level: number }
+  ) => KakaoMap;
+  Polyline: new (
+    options: KakaoPolylineOptions & { map?: KakaoMap; path: KakaoLatLng[] }
+  ) => KakaoPolyline;
+  CustomOverlay: new (options: {
+    map?: KakaoMap;
+    position: KakaoLatLng;
+    content: HTMLElement | string;
+    yAnchor?: number;
+    zIndex?: number;
+  }) => KakaoCustomOverlay;
+  load(callback: () => void): void;
+}
+
+declare global {
+  interface Window {
+    kakao?: { maps: KakaoMapsApi };
+  }
+}
+
+// A JavaScript key, distinct from the REST key used for place search.
+const KAKAO_MAP_APP_KEY = import.meta.env.VITE_KAKAO_MAP_APP_KEY;
+
+export const hasKakaoMapKey = !!KAKAO_MAP_APP_KEY;
+
+let sdkLoad: Promise<KakaoMapsApi> | null = null;
+
+export function loadKakaoMaps(): Promise<KakaoMapsApi> {
+  if (!sdkLoad) {
+    sdkLoad = new Promise((resolve, reject) => {
+      const script = document.createElement('script');
+      script.src = `https://dapi.kakao.com/v2/maps/sdk.js?appkey=${KAKAO_MAP_APP_KEY}&autoload=false`;
+      script.async = true;
+      script.onload = () => {
+        const maps = window.kakao?.maps;
+        if (!maps) {
+          reject(new Error('Kakao Maps SDK did not initialise'));
+          return;
+        }
+        maps.load(() => resolve(maps));
+      };
+      script.onerror = () => {
+        // Let the next map retry instead of caching the failure.
+        sdkLoad = null;
+        script.remove();
+        reject(new Error('Kakao Maps SDK failed to load'));
+      };
+      document.head.appendChild(script);
+    });
+  }
+  return sdkLoad;
+}
@@ -0,0 +1,43 @@
+import {
+  GeoPoint,
+  PlaceResult,
+  PlaceSearchErrorResponse,
+  PlaceSearchRequest,
+  PlaceSearchResponse,
+} from '../types';
+
+const SEARCH_PLACES_URL = `${
+  import.meta.env.VITE_SUPABASE_URL
+}/functions/v1/search-places`;
+
+async function requestPlaces(
+  request: PlaceSearchRequest
+): Promise<PlaceResult[]> {
+  const response = await fetch(SEARCH_PLACES_URL, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(request),
+  });
+  const data = await response.json();
+
+  if (!response.ok) {
+    const error = data as PlaceSearchErrorResponse;
+    throw new Error(`Place search failed: ${error.error}`);
+  }
+  return (data as PlaceSearchResponse).places;
+}
+
+// `near` ranks matches close to it first without excluding distant ones.
+export function searchPlaces(
+  query: string,
+  near?: GeoPoint
+): Promise<PlaceResult[]> {
+  return requestPlaces({ query, near });
+}
+
+export async function reverseGeocode(
+  at: GeoPoint
+): Promise<PlaceResult | null> {
+  const [place] = await requestPlaces({ at });
+  return place ?? null;
+}
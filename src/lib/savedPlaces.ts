@@ -0,0 +1,90 @@
+import { getClientId } from './clientId';
+import { supabase } from './supabase';
+import { PlaceResult, SavedPlace, SavedPlaceKind } from '../types';
+
+export const SAVED_PLACE_LABELS: Record<
+  Exclude<SavedPlaceKind, 'custom'>,
+  string
+> = {
+  home: '집',
+  work: '회사',
+};
+
+const KIND_ORDER: Record<SavedPlaceKind, number> = {
+  home: 0,
+  work: 1,
+  custom: 2,
+};
+
+interface SavedPlaceRow {
+  id: string;
+  kind: SavedPlaceKind;
+  label: string;
+  name: string;
+  address: string | null;
+  lat: number;
+  lng: number;
+}
+
+function toSavedPlace(row: SavedPlaceRow): SavedPlace {
+  return {
+    id: row.id,
+    kind: row.kind,
+    label: row.label,
+    location: {
+      name: row.name,
+      lat: Number(row.lat),
+      lng: Number(row.lng),
+    },
+    address: row.address ?? undefined,
+  };
+}
+
+// Home and work first, then custom places in the order they were saved.
+export async function fetchSavedPlaces(): Promise<SavedPlace[]> {
+  const { data, error } = await supabase
+    .from('saved_places')
+    .select('id, kind, label, name, address, lat, lng')
+    .order('created_at', { ascending: true });
+
+  if (error) throw new Error(error.message);
+
+  return ((data ?? []) as SavedPlaceRow[])
+    .map(toSavedPlace)
+    .sort((a, b) => KIND_ORDER[a.kind] - KIND_ORDER[b.kind]);
+}
+
+// Saving under a label that is already taken moves that label to the new
+// place, which is how home and work get changed.
+export async function savePlace(
+  kind: SavedPlaceKind,
+  place: PlaceResult,
+  label: string = kind === 'custom' ? place.name : SAVED_PLACE_LABELS[kind]
+): Promise<SavedPlace> {
+  const { data, error } = await supabase
+    .from('saved_places')
+    .upsert(
+      {
+        client_id: getClientId(),
+        kind,
+        label: label.trim(),
+        name: place.name,
+        address: place.address || null,
+        lat: place.lat,
+        lng: place.lng,
+        updated_at: new Date().toISOString(),
+      },
+      { onConflict: 'client_id,label' }
+    )
+    .select('id, kind, label, name, address, lat, lng')
+    .single();
+
+  if (error) throw new Error(error.message);
+  return toSavedPlace(data as SavedPlaceRow);
+}
+
+export async function deleteSavedPlace(id: string): Promise<void> {
+  const { error } = await supabase.from('saved_places').delete().eq('id', id);
+
+  if (error) throw new Error(error.message);
+}
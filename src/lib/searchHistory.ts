@@ -0,0 +1,76 @@
+import { getClientId } from './clientId';
+import { supabase } from './supabase';
+import { RecentSearch } from '../types';
+
+const RECENT_SEARCH_FETCH_LIMIT = 20;
+
+interface SearchRow {
+  id: string;
+  origin_name: string;
+  origin_lat: number;
+  origin_lng: number;
+  destination_name: string;
+  destination_lat: number;
+  destination_lng: number;
+  max_time_min: number;
+  max_walk_min: number;
+  taxi_max_segments: number | null;
+  departure_time: string | null;
+  arrive_by: string | null;
+  searched_at: string;
+}
+
+function toRecentSearch(row: SearchRow): RecentSearch {
+  return {
+    id: row.id,
+    origin: {
+      name: row.origin_name,
+      lat: Number(row.origin_lat),
+      lng: Number(row.origin_lng),
+    },
+    destination: {
+      name: row.destination_name,
+      lat: Number(row.destination_lat),
+      lng: Number(row.destination_lng),
+    },
+    maxTimeMin: row.max_time_min,
+    maxWalkMin: row.max_walk_min,
+    taxiMaxSegments: row.taxi_max_segments ?? 1,
+    departureTime: row.departure_time ?? undefined,
+    arriveBy: row.arrive_by ?? undefined,
+    searchedAt: row.searched_at,
+  };
+}
+
+export async function fetchRecentSearches(limit = 5): Promise<RecentSearch[]> {
+  const { data, error } = await supabase
+    .from('searches')
+    .select(
+      'id, origin_name, origin_lat, origin_lng, destination_name, destination_lat, destination_lng, max_time_min, max_walk_min, taxi_max_segments, departure_time, arrive_by, searched_at'
+    )
+    .eq('client_id', getClientId())
+    .order('searched_at', { ascending: false })
+    .limit(RECENT_SEARCH_FETCH_LIMIT);
+
+  if (error) throw new Error(error.message);
+
+  const seen = new Set<string>();
+  const recent: RecentSearch[] = [];
+  for (const row of (data ?? []) as SearchRow[]) {
+    const key = `${row.origin_name}|${row.destination_name}`;
+    if (seen.has(key)) continue;
+    seen.add(key);
+    recent.push(toRecentSearch(row));
+    if (recent.length >= limit) break;
+  }
+  return recent;
+}
+
+export async function clearSearchHistory(): Promise<void> {
+  const { error } = await supabase
+    .from('searches')
+    .delete()
+    .eq('client_id', getClientId());
+
+  if (error) throw new Error(error.message);
+}
@@ -1,4 +1,5 @@
 import { createClient } from '@supabase/supabase-js';
+import { getClientId } from './clientId';
 
 const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
 const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY;
@@ -7,4 +8,7 @@ if (!supabaseUrl || !supabaseAnonKey) {
   throw new Error('Missing Supabase environment variables');
 }
 
-export const supabase = createClient(supabaseUrl, supabaseAnonKey);
+// Row level security on per-browser tables compares rows against this header.
+export const supabase = createClient(supabaseUrl, supabaseAnonKey, {
+  global: { headers: { 'x-client-id': getClientId() } },
+});
@@ -1,84 +1,89 @@
-export interface Location {
-  lat: number;
-  lng: number;
-  name: string;
-}
+import type {
+  Location,
+  RouteRequest,
+} from '../supabase/functions/_shared/routeContract.ts';
 
-export interface TransitStep {
-  mode: 'WALK' | 'BUS' | 'SUBWAY';
-  from: string;
-  to: string;
-  duration: number;
-  distance?: number;
-  route?: string;
-  routeColor?: string;
-  service?: number;
-  stationCount?: number;
-}
+export type {
+  AccessibilityProfile,
+  FareCategory,
+  FareProfile,
+  GeoPoint,
+  Location,
+  RealtimeArrival,
+  RouteCandidate,
+  RouteDebugInfo,
+  RouteErrorCode,
+  RouteErrorResponse,
+  RouteLeg,
+  RouteResponse,
+  ScoreBreakdown,
+  ScoringModel,
+  StepFare,
+  TaxiDetails,
+  TaxiProduct,
+  TaxiRegion,
+  TaxiSuppressionSummary,
+  TransitDetails,
+  TransitPass,
+  TransitStep,
+  ValidationIssue,
+  WalkDetails,
+} from '../supabase/functions/_shared/routeContract.ts';
 
-export interface TransitDetails {
-  totalWalkM?: number;
-  busCount?: number;
-  subwayCount?: number;
-  pathType?: number;
-  steps?: TransitStep[];
-}
+export type {
+  PlaceResult,
+  PlaceSearchErrorCode,
+  PlaceSearchErrorResponse,
+  PlaceSearchRequest,
+  PlaceSearchResponse,
+} from '../supabase/functions/_shared/placeContract.ts';
 
-export interface TaxiDetails {
-  distance?: number;
-  duration?: number;
-  taxiFare?: number;
-  tollFare?: number;
-}
+export type SearchRequest = RouteRequest;
 
-export interface WalkDetails {
-  distance: number;
-  reason?: string;
+export interface RecentSearch {
+  id: string;
+  origin: Location;
+  destination: Location;
+  maxTimeMin: number;
+  maxWalkMin: number;
+  taxiMaxSegments: number;
+  departureTime?: string;
+  arriveBy?: string;
+  searchedAt: string;
 }
 
-export interface RouteLeg {
-  type: 'transit' | 'taxi' | 'walk';
-  from: string;
-  to: string;
-  durationMin: number;
-  costKrw: number;
-  details?: TransitDetails | TaxiDetails | WalkDetails;
-  arrivalTime?: string;
-}
+export type SavedPlaceKind = 'home' | 'work' | 'custom';
 
-export interface RouteCandidate {
+export interface SavedPlace {
   id: string;
-  type: 'transit-only' | 'taxi-only' | 'taxi-transit' | 'transit-taxi' | 'walk-only';
-  totalTimeMin: number;
-  totalCostKrw: number;
-  walkTimeMin: number;
-  hasTaxi: boolean;
-  legs: RouteLeg[];
-  slackMin: number;
-  isFeasible: boolean;
-  departureTime?: string;
-  arrivalTime?: string;
+  kind: SavedPlaceKind;
+  label: string;
+  location: Location;
+  address?: string;
 }
 
-export interface RouteResponse {
-  success: boolean;
-  routes: RouteCandidate[];
-  count: number;
-  noFeasibleRoute: boolean;
-  minPossibleTimeMin: number | null;
-  minPossibleWalkMin: number | null;
-  constraints: {
-    maxTimeMin: number;
-    maxWalkMin: number;
-  };
+export type CommuteTimeMode = 'depart' | 'arrive';
+
+// A search without its times, which the preset supplies each day.
+export type CommuteRequest = Omit<
+  SearchRequest,
+  'departureTime' | 'arriveBy' | 'clientId' | 'debug'
+>;
+
+export interface CommutePreset {
+  id: string;
+  label: string;
+  request: CommuteRequest;
+  timeMode: CommuteTimeMode;
+  timeHHmm: string;
+  weekdays: number[];
 }
 
-export interface SearchRequest {
-  origin: Location;
-  destination: Location;
-  maxTimeMin: number;
-  maxWalkMin: number;
-  requireTaxi?: boolean;
-  taxiMaxSegments?: number;
-  departureTime?: string;
+export interface CommuteBriefing {
+  id: string;
+  presetId: string;
+  label: string;
+  headline: string;
+  leaveBy?: string;
+  serviceDate: string;
 }
@@ -0,0 +1,108 @@
+import { supabaseAdmin } from "./supabaseAdmin.ts";
+
+export const CACHE_TTL_SEC = {
+  stationPoi: 7 * 24 * 60 * 60,
+  transitRoute: 10 * 60,
+  taxiDirections: 3 * 60,
+  taxiEta: 3 * 60,
+  placeSearch: 24 * 60 * 60,
+  reverseGeocode: 7 * 24 * 60 * 60,
+  busStopLookup: 7 * 24 * 60 * 60,
+  realtimeArrival: 20,
+};
+
+export interface CacheStats {
+  hits: number;
+  misses: number;
+  errors: number;
+}
+
+export interface ApiCache {
+  stats: CacheStats;
+  wrap<T>(
+    key: string,
+    ttlSec: number,
+    fetcher: () => Promise<T | null>,
+    isCacheable?: (value: T) => boolean
+  ): Promise<T | null>;
+}
+
+type CacheKeyParam = string | number | boolean | undefined;
+
+function normalizeParam(value: CacheKeyParam): string {
+  if (typeof value === "number") {
+    return Number.isInteger(value) ? String(value) : value.toFixed(5);
+  }
+  return String(value ?? "");
+}
+
+export function buildCacheKey(
+  namespace: string,
+  params: Record<string, CacheKeyParam>
+): string {
+  const parts = Object.keys(params)
+    .sort()
+    .map((k) => `${k}=${normalizeParam(params[k])}`);
+  return `${namespace}:${parts.join("&")}`;
+}
+
+export function createApiCache(): ApiCache {
+  const stats: CacheStats = { hits: 0, misses: 0, errors: 0 };
+
+  async function read<T>(key: string): Promise<T | null> {
+    if (!supabaseAdmin) return null;
+    const { data, error } = await supabaseAdmin
+      .from("api_cache")
+      .select("cache_value")
+      .eq("cache_key", key)
+      .gt("expires_at", new Date().toISOString())
+      .maybeSingle();
+
+    if (error) {
+      stats.errors++;
+      console.error("api_cache read error:", error.message);
+      return null;
+    }
+    return (data?.cache_value as T) ?? null;
+  }
+
+  async function write<T>(key: string, value: T, ttlSec: number) {
+    if (!supabaseAdmin) return;
+    const { error } = await supabaseAdmin.from("api_cache").upsert(
+      {
+        cache_key: key,
+        cache_value: value,
+        expires_at: new Date(Date.now() + ttlSec * 1000).toISOString(),
+      },
+      { onConflict: "cache_key" }
+    );
+
+    if (error) {
+      stats.errors++;
+      console.error("api_cache write error:", error.message);
+    }
+  }
+
+  return {
+    stats,
+    async wrap<T>(
+      key: string,
+      ttlSec: number,
+      fetcher: () => Promise<T | null>,
+      isCacheable: (value: T) => boolean = () => true
+    ): Promise<T | null> {
+      const cached = await read<T>(key);
+      if (cached !== null) {
+        stats.hits++;
+        return cached;
+      }
+
+      stats.misses++;
+      const value = await fetcher();
+      if (value !== null && isCacheable(value)) {
+        await write(key, value, ttlSec);
+      }
+      return value;
+    },
+  };
+}
@@ -0,0 +1,29 @@
+export interface CoalescedResult<T> {
+  value: T;
+  shared: boolean;
+}
+
+export interface RequestCoalescer<T> {
+  isRunning(key: string): boolean;
+  run(key: string, compute: () => Promise<T>): Promise<CoalescedResult<T>>;
+}
+
+// Concurrent calls with the same key share one in-flight computation. Only the
+// caller that started it gets `shared: false`.
+export function createRequestCoalescer<T>(): RequestCoalescer<T> {
+  const inFlight = new Map<string, Promise<T>>();
+
+  return {
+    isRunning(key: string) {
+      return inFlight.has(key);
+    },
+    async run(key: string, compute: () => Promise<T>) {
+      const existing = inFlight.get(key);
+      if (existing) return { value: await existing, shared: true };
+
+      const promise = compute().finally(() => inFlight.delete(key));
+      inFlight.set(key, promise);
+      return { value: await promise, shared: false };
+    },
+  };
+}
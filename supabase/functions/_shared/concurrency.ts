@@ -0,0 +1,56 @@
+export interface BoundedMapResult<R> {
+  results: R[];
+  timedOut: boolean;
+}
+
+// Past `deadlineAt` no further item is started, and the signal handed to
+// running workers is aborted so they can drop their upstream calls.
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  worker: (item: T, signal: AbortSignal) => Promise<R>,
+  deadlineAt?: number
+): Promise<BoundedMapResult<R>> {
+  const results: R[] = [];
+  const controller = new AbortController();
+  const expired = () =>
+    controller.signal.aborted ||
+    (deadlineAt !== undefined && Date.now() >= deadlineAt);
+  let nextIndex = 0;
+
+  const runners = Array.from(
+    { length: Math.max(1, Math.min(limit, items.length)) },
+    async () => {
+      while (!expired() && nextIndex < items.length) {
+        const item = items[nextIndex++];
+        try {
+          const result = await worker(item, controller.signal);
+          if (!controller.signal.aborted) results.push(result);
+        } catch (error) {
+          console.error("Bounded worker error:", error);
+        }
+      }
+    }
+  );
+  const allDone = Promise.all(runners).then(() => false);
+
+  if (deadlineAt === undefined) {
+    await allDone;
+    return { results, timedOut: false };
+  }
+
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const deadline = new Promise<boolean>((resolve) => {
+    timer = setTimeout(
+      () => resolve(true),
+      Math.max(0, deadlineAt - Date.now())
+    );
+  });
+
+  const timedOut =
+    (await Promise.race([allDone, deadline])) || nextIndex < items.length;
+  clearTimeout(timer);
+  controller.abort();
+
+  return { results: [...results], timedOut };
+}
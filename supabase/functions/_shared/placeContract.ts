@@ -0,0 +1,111 @@
+// Request/response contract for the search-places function. Like
+// routeContract.ts it is shared with the Vite app, so it must stay free of
+// Deno and DOM APIs.
+
+import { GeoPoint, Location } from "./routeContract.ts";
+
+export interface PlaceResult extends Location {
+  address: string;
+  // Straight-line distance from `near`, when the search was biased.
+  distanceM?: number;
+}
+
+// Either a keyword search (`query`, optionally biased towards `near`) or a
+// reverse geocode of `at`.
+export interface PlaceSearchRequest {
+  query?: string;
+  near?: GeoPoint;
+  at?: GeoPoint;
+}
+
+export interface PlaceSearchResponse {
+  success: true;
+  places: PlaceResult[];
+}
+
+export type PlaceSearchErrorCode =
+  | "INVALID_BODY"
+  | "INVALID_FIELD"
+  | "INVALID_COORDINATES"
+  | "UPSTREAM_UNAVAILABLE"
+  | "RATE_LIMITED"
+  | "INTERNAL_ERROR";
+
+export interface PlaceSearchErrorResponse {
+  success: false;
+  error: PlaceSearchErrorCode;
+  message: string;
+  path?: string;
+  retryAfterSec?: number;
+}
+
+export type PlaceSearchValidation =
+  | { ok: true; request: PlaceSearchRequest }
+  | { ok: false; code: PlaceSearchErrorCode; path: string; message: string };
+
+const MAX_QUERY_LENGTH = 100;
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isPresent(value: unknown): boolean {
+  return value !== undefined && value !== null;
+}
+
+function isGeoPoint(value: unknown): value is GeoPoint {
+  if (!isRecord(value)) return false;
+  const { lat, lng } = value;
+  return (
+    typeof lat === "number" &&
+    typeof lng === "number" &&
+    Math.abs(lat) <= 90 &&
+    Math.abs(lng) <= 180
+  );
+}
+
+export function validatePlaceSearchRequest(
+  body: unknown
+): PlaceSearchValidation {
+  if (!isRecord(body)) {
+    return {
+      ok: false,
+      code: "INVALID_BODY",
+      path: "",
+      message: "body must be a JSON object",
+    };
+  }
+
+  if (isPresent(body.query) === isPresent(body.at)) {
+    return {
+      ok: false,
+      code: "INVALID_FIELD",
+      path: "query",
+      message: "exactly one of query and at is required",
+    };
+  }
+  if (
+    isPresent(body.query) &&
+    (typeof body.query !== "string" ||
+      body.query.trim() === "" ||
+      body.query.length > MAX_QUERY_LENGTH)
+  ) {
+    return {
+      ok: false,
+      code: "INVALID_FIELD",
+      path: "query",
+      message: `must be a non-empty string of at most ${MAX_QUERY_LENGTH} characters`,
+    };
+  }
+  for (const key of ["near", "at"]) {
+    if (isPresent(body[key]) && !isGeoPoint(body[key])) {
+      return {
+        ok: false,
+        code: "INVALID_COORDINATES",
+        path: key,
+        message: "must be an object with a valid lat and lng",
+      };
+    }
+  }
+  return { ok: true, request: body as PlaceSearchRequest };
+}
@@ -0,0 +1,69 @@
+export interface TokenBucketOptions {
+  capacity: number;
+  refillPerSec: number;
+}
+
+export type RateLimitDecision =
+  | { allowed: true }
+  | { allowed: false; retryAfterSec: number };
+
+export interface RateLimiter {
+  take(key: string, now?: number): RateLimitDecision;
+}
+
+interface Bucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+// Buckets live in isolate memory, so the limit is per edge-function instance
+// rather than global. That is enough to stop double-submits and scripted
+// loops from draining the upstream quota.
+export function createTokenBucketLimiter({
+  capacity,
+  refillPerSec,
+}: TokenBucketOptions): RateLimiter {
+  const buckets = new Map<string, Bucket>();
+
+  function prune(now: number) {
+    const fullAfterMs = (capacity / refillPerSec) * 1000;
+    for (const [key, bucket] of buckets) {
+      if (now - bucket.updatedAt >= fullAfterMs) buckets.delete(key);
+    }
+  }
+
+  return {
+    take(key: string, now = Date.now()): RateLimitDecision {
+      if (buckets.size > 10_000) prune(now);
+
+      const bucket = buckets.get(key) ?? { tokens: capacity, updatedAt: now };
+      const elapsedSec = Math.max(0, now - bucket.updatedAt) / 1000;
+      bucket.tokens = Math.min(
+        capacity,
+        bucket.tokens + elapsedSec * refillPerSec
+      );
+      bucket.updatedAt = now;
+      buckets.set(key, bucket);
+
+      if (bucket.tokens < 1) {
+        return {
+          allowed: false,
+          retryAfterSec: Math.ceil((1 - bucket.tokens) / refillPerSec),
+        };
+      }
+      bucket.tokens -= 1;
+      return { allowed: true };
+    },
+  };
+}
+
+// Limits are keyed on where a call comes from, never on ids the caller puts in
+// the body, which a script can change on every call. Behind the Supabase
+// gateway that is the first x-forwarded-for hop; the socket address covers
+// serving the function directly.
+export function callerKey(req: Request, info?: Deno.ServeHandlerInfo): string {
+  const forwarded = req.headers.get("x-forwarded-for")?.split(",")[0].trim();
+  if (forwarded) return `ip:${forwarded}`;
+  const addr = info?.remoteAddr;
+  return addr && "hostname" in addr ? `ip:${addr.hostname}` : "anonymous";
+}
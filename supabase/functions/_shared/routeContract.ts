@@ -0,0 +1,705 @@
+// Request/response contract for the find-optimal-route function. Imported by
+// both the edge function and the Vite app (via src/types.ts), so it must stay
+// free of Deno and DOM APIs.
+
+export type TaxiRegion = "seoul" | "gyeonggi" | "incheon";
+
+export interface GeoPoint {
+  lat: number;
+  lng: number;
+}
+
+export interface Location extends GeoPoint {
+  name: string;
+}
+
+// Where transit itineraries come from: the TMAP API or the offline GTFS
+// engine. Omitted means the server's configured default and failover chain.
+export type TransitSource = "tmap" | "gtfs";
+
+// Which kind of taxi every taxi leg is priced as: a regular mid-size taxi, a
+// deluxe (모범) taxi or a large (대형) taxi for groups and luggage.
+export type TaxiProduct = "regular" | "deluxe" | "large";
+
+// Transit fare categories. Youth is 13-18, child 6-12 and senior 65 and over;
+// younger children ride free and need not be counted.
+export type FareCategory = "adult" | "youth" | "child" | "senior";
+
+// Unlimited-ride passes. 기후동행카드 is Seoul's monthly climate card.
+export type TransitPass = "climate-card";
+
+// The fares of the person searching, who is one of `passengers`.
+export interface FareProfile {
+  category?: FareCategory;
+  pass?: TransitPass;
+}
+
+export interface ScoringModel {
+  valueOfTimeKrwPerMin: number;
+  walkPenaltyKrwPerMin: number;
+  transferPenaltyKrw: number;
+}
+
+// For riders who walk slowly or cannot take stairs: wheelchairs, strollers,
+// heavy luggage. Omitted fields keep the defaults.
+export interface AccessibilityProfile {
+  // Defaults to 70 m/min.
+  walkSpeedMPerMin?: number;
+  // Added to the transfer walk of every bus or subway boarded.
+  extraTransferMin?: number;
+  // Only drop off at or pick up from subway stations with an elevator route,
+  // and flag rides that board or leave the train at one without.
+  stepFreeOnly?: boolean;
+}
+
+export interface RouteRequest {
+  origin: Location;
+  destination: Location;
+  // Required unless arriveBy is set; an arrive-by search may take all the
+  // time until the deadline and ignores it.
+  maxTimeMin?: number;
+  maxWalkMin: number;
+  requireTaxi?: boolean;
+  taxiMaxSegments?: number;
+  taxiProduct?: TaxiProduct;
+  // Everyone travelling together, 1 when omitted.
+  passengers?: number;
+  // How many of the passengers pay youth or child fares; the rest pay adult.
+  fareCategories?: Partial<Record<Exclude<FareCategory, "adult">, number>>;
+  fareProfile?: FareProfile;
+  departureTime?: string;
+  arriveBy?: string;
+  // Attributes the search in history; limits follow the caller address.
+  clientId?: string;
+  // Omitted weights keep the server defaults.
+  scoring?: Partial<ScoringModel>;
+  accessibility?: AccessibilityProfile;
+  transitSource?: TransitSource;
+  debug?: boolean;
+}
+
+// Live arrival of the vehicle the rider boards, from a real-time feed.
+export interface RealtimeArrival {
+  // From the time of the search.
+  arrivesInMin: number;
+  // Between reaching the stop and the vehicle leaving it; already included
+  // in the leg and route durations.
+  waitMin: number;
+  nextDepartureAt: string;
+  provider: string;
+}
+
+// What the searcher pays for one ride: its share of the itinerary's adult
+// fare, and the share after their category discount or pass.
+export interface StepFare {
+  baseKrw: number;
+  paidKrw: number;
+  discount?: Exclude<FareCategory, "adult"> | TransitPass;
+}
+
+export interface TransitStep {
+  mode: "WALK" | "BUS" | "SUBWAY";
+  from: string;
+  to: string;
+  duration: number;
+  distance?: number;
+  route?: string;
+  routeColor?: string;
+  service?: number;
+  stationCount?: number;
+  // The stop after `from`, which tells the direction of travel.
+  nextStop?: string;
+  afterLastService?: boolean;
+  // Boards or leaves the train at a station without an elevator route. Only
+  // checked for step-free searches.
+  lacksStepFreeAccess?: boolean;
+  // The station data has no step-free rating for one end of the ride.
+  stepFreeAccessUnknown?: boolean;
+  realtime?: RealtimeArrival;
+  // Only for searches with a fare profile.
+  fare?: StepFare;
+  // Geometry, when the transit source provides it.
+  start?: GeoPoint;
+  end?: GeoPoint;
+  path?: GeoPoint[];
+}
+
+export interface TransitDetails {
+  totalWalkM?: number;
+  // What the searcher's fare profile saved on this leg.
+  fareDiscountKrw?: number;
+  busCount?: number;
+  subwayCount?: number;
+  pathType?: number;
+  steps?: TransitStep[];
+}
+
+export interface TaxiDetails {
+  distance?: number;
+  duration?: number;
+  product?: TaxiProduct;
+  taxiFare?: number;
+  tollFare?: number;
+  callFee?: number;
+  // Taxis the party needs; fares and fees above are per taxi.
+  vehicles?: number;
+  // Typical and 90th-percentile wait for the taxi to arrive; the typical
+  // wait is included in the leg duration.
+  pickupWaitMin?: number;
+  pickupWaitP90Min?: number;
+  fareSource?: "kakao" | "estimated";
+  tariffRegion?: TaxiRegion;
+  nightSurchargeRate?: number;
+  suburbSurcharge?: boolean;
+}
+
+export interface WalkDetails {
+  distance: number;
+  reason?: string;
+}
+
+export interface RouteLeg {
+  type: "transit" | "taxi" | "walk";
+  from: string;
+  to: string;
+  durationMin: number;
+  costKrw: number;
+  details?: TransitDetails | TaxiDetails | WalkDetails;
+  arrivalTime?: string;
+  // Taxi and walk geometry; transit legs carry theirs per step.
+  path?: GeoPoint[];
+}
+
+// Costs of one traveller; for parties the fare is the per-person share.
+export interface ScoreBreakdown {
+  generalizedCostKrw: number;
+  fareKrw: number;
+  timeCostKrw: number;
+  walkPenaltyKrw: number;
+  transferPenaltyKrw: number;
+  transfers: number;
+}
+
+export interface RouteCandidate {
+  id: string;
+  type:
+    | "transit-only"
+    | "taxi-only"
+    | "taxi-transit"
+    | "transit-taxi"
+    | "taxi-transit-taxi"
+    | "walk-only";
+  totalTimeMin: number;
+  // For the whole party: transit fares per person, taxi fares per car.
+  totalCostKrw: number;
+  // Only for parties of more than one.
+  perPersonCostKrw?: number;
+  walkTimeMin: number;
+  hasTaxi: boolean;
+  legs: RouteLeg[];
+  slackMin: number;
+  isFeasible: boolean;
+  departureTime?: string;
+  arrivalTime?: string;
+  leaveBy?: string;
+  afterLastService?: boolean;
+  score?: ScoreBreakdown;
+}
+
+export interface TaxiSuppressionSummary {
+  baseFareTaxi: number;
+  lowSavingsVsTaxi: number;
+  lowTimeSavingsVsTransit: number;
+  totalSuppressed: number;
+}
+
+export interface RouteDebugInfo {
+  tmapCalled: boolean;
+  tmapSuccess: boolean;
+  tmapItineraryCount: number;
+  stationsNearOrigin: number;
+  stationsNearDest: number;
+  taxiTransitAttempts: number;
+  transitTaxiAttempts: number;
+  taxiTransitTaxiAttempts: number;
+  taxiTransitGenerated: number;
+  transitTaxiGenerated: number;
+  taxiTransitTaxiGenerated: number;
+  poiRadius: number;
+  tmapKeySet: boolean;
+  transitProvider: string;
+  searchDeadlineHit: boolean;
+  cache: { hits: number; misses: number; errors: number };
+}
+
+export interface RouteResponse {
+  success: boolean;
+  routes: RouteCandidate[];
+  count: number;
+  noFeasibleRoute: boolean;
+  minPossibleTimeMin: number | null;
+  minPossibleWalkMin: number | null;
+  constraints: {
+    maxTimeMin: number;
+    maxWalkMin: number;
+    arriveBy?: string;
+    passengers?: number;
+  };
+  // The taxi-only baseline, even when it is infeasible or not in `routes`.
+  taxiOnly?: RouteCandidate;
+  taxiSuppressed?: TaxiSuppressionSummary;
+  afterLastServiceCount: number;
+  debug?: RouteDebugInfo;
+}
+
+export type RouteErrorCode =
+  | "INVALID_BODY"
+  | "INVALID_FIELD"
+  | "INVALID_COORDINATES"
+  | "OUT_OF_SERVICE_AREA"
+  | "INVALID_TIME"
+  | "UPSTREAM_UNAVAILABLE"
+  | "IN_FLIGHT"
+  | "RATE_LIMITED"
+  | "INTERNAL_ERROR";
+
+export interface RouteErrorResponse {
+  success: false;
+  error: RouteErrorCode;
+  message: string;
+  issues?: ValidationIssue[];
+  retryAfterSec?: number;
+}
+
+export interface ValidationIssue {
+  code: RouteErrorCode;
+  path: string;
+  message: string;
+}
+
+export type ValidationResult =
+  | { ok: true; request: RouteRequest }
+  | { ok: false; issues: ValidationIssue[] };
+
+// Rough bounding box of South Korea; TMAP and Kakao Mobility return nothing
+// useful outside it.
+const SERVICE_AREA = { minLat: 33, maxLat: 38.7, minLng: 124.5, maxLng: 132 };
+const MAX_WALK_MIN = 120;
+const MAX_TIME_MIN = 24 * 60;
+const MIN_WALK_SPEED_M_PER_MIN = 20;
+const MAX_WALK_SPEED_M_PER_MIN = 100;
+const MAX_EXTRA_TRANSFER_MIN = 15;
+const TRANSIT_SOURCES: TransitSource[] = ["tmap", "gtfs"];
+const TAXI_PRODUCTS: TaxiProduct[] = ["regular", "deluxe", "large"];
+const MAX_PASSENGERS = 12;
+const FARE_CATEGORIES: FareCategory[] = ["adult", "youth", "child", "senior"];
+const DISCOUNTED_FARE_CATEGORIES = FARE_CATEGORIES.slice(1);
+const TRANSIT_PASSES: TransitPass[] = ["climate-card"];
+
+type UnknownRecord = Record<string, unknown>;
+
+function isRecord(value: unknown): value is UnknownRecord {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === "number" && Number.isFinite(value);
+}
+
+function isPresent(value: unknown): boolean {
+  return value !== undefined && value !== null;
+}
+
+function checkLocation(
+  value: unknown,
+  path: string,
+  issues: ValidationIssue[]
+) {
+  if (!isRecord(value)) {
+    issues.push({ code: "INVALID_FIELD", path, message: "must be an object" });
+    return;
+  }
+  if (typeof value.name !== "string") {
+    issues.push({
+      code: "INVALID_FIELD",
+      path: `${path}.name`,
+      message: "must be a string",
+    });
+  }
+
+  const { lat, lng } = value;
+  if (!isFiniteNumber(lat) || lat < -90 || lat > 90) {
+    issues.push({
+      code: "INVALID_COORDINATES",
+      path: `${path}.lat`,
+      message: "must be a latitude between -90 and 90",
+    });
+  }
+  if (!isFiniteNumber(lng) || lng < -180 || lng > 180) {
+    issues.push({
+      code: "INVALID_COORDINATES",
+      path: `${path}.lng`,
+      message: "must be a longitude between -180 and 180",
+    });
+  }
+  if (
+    isFiniteNumber(lat) &&
+    isFiniteNumber(lng) &&
+    (lat < SERVICE_AREA.minLat ||
+      lat > SERVICE_AREA.maxLat ||
+      lng < SERVICE_AREA.minLng ||
+      lng > SERVICE_AREA.maxLng)
+  ) {
+    issues.push({
+      code: "OUT_OF_SERVICE_AREA",
+      path,
+      message: "must be inside South Korea",
+    });
+  }
+}
+
+function checkOptional(
+  body: UnknownRecord,
+  key: string,
+  type: "string" | "number" | "boolean",
+  issues: ValidationIssue[],
+  pathPrefix = ""
+) {
+  const value = body[key];
+  if (!isPresent(value)) return;
+  const valid =
+    type === "number" ? isFiniteNumber(value) : typeof value === type;
+  if (!valid) {
+    issues.push({
+      code: "INVALID_FIELD",
+      path: `${pathPrefix}${key}`,
+      message: `must be a ${type}`,
+    });
+  }
+}
+
+function checkRange(
+  value: unknown,
+  path: string,
+  min: number,
+  max: number,
+  issues: ValidationIssue[]
+) {
+  if (!isFiniteNumber(value) || value < min || value > max) {
+    issues.push({
+      code: "INVALID_FIELD",
+      path,
+      message: `must be a number between ${min} and ${max}`,
+    });
+  }
+}
+
+function checkCount(
+  value: unknown,
+  path: string,
+  min: number,
+  max: number,
+  issues: ValidationIssue[]
+) {
+  if (
+    !Number.isInteger(value) ||
+    (value as number) < min ||
+    (value as number) > max
+  ) {
+    issues.push({
+      code: "INVALID_FIELD",
+      path,
+      message: `must be a whole number between ${min} and ${max}`,
+    });
+  }
+}
+
+function parseTime(
+  value: unknown,
+  path: string,
+  issues: ValidationIssue[]
+): number | null {
+  if (!isPresent(value)) return null;
+  const time = typeof value === "string" ? Date.parse(value) : NaN;
+  if (Number.isNaN(time)) {
+    issues.push({
+      code: "INVALID_TIME",
+      path,
+      message: "must be an ISO 8601 date-time",
+    });
+    return null;
+  }
+  return time;
+}
+
+export function validateRouteRequest(
+  body: unknown,
+  now: Date = new Date()
+): ValidationResult {
+  if (!isRecord(body)) {
+    return {
+      ok: false,
+      issues: [
+        {
+          code: "INVALID_BODY",
+          path: "",
+          message: "body must be a JSON object",
+        },
+      ],
+    };
+  }
+
+  const issues: ValidationIssue[] = [];
+  checkLocation(body.origin, "origin", issues);
+  checkLocation(body.destination, "destination", issues);
+
+  checkRange(body.maxWalkMin, "maxWalkMin", 0, MAX_WALK_MIN, issues);
+  if (!isPresent(body.arriveBy) || isPresent(body.maxTimeMin)) {
+    checkRange(body.maxTimeMin, "maxTimeMin", 1, MAX_TIME_MIN, issues);
+  }
+  if (isPresent(body.taxiMaxSegments)) {
+    checkCount(body.taxiMaxSegments, "taxiMaxSegments", 1, 2, issues);
+  }
+
+  checkOptional(body, "requireTaxi", "boolean", issues);
+  checkOptional(body, "clientId", "string", issues);
+  checkOptional(body, "debug", "boolean", issues);
+  if (
+    isPresent(body.transitSource) &&
+    !TRANSIT_SOURCES.includes(body.transitSource as TransitSource)
+  ) {
+    issues.push({
+      code: "INVALID_FIELD",
+      path: "transitSource",
+      message: `must be one of ${TRANSIT_SOURCES.join(", ")}`,
+    });
+  }
+
+  if (
+    isPresent(body.taxiProduct) &&
+    !TAXI_PRODUCTS.includes(body.taxiProduct as TaxiProduct)
+  ) {
+    issues.push({
+      code: "INVALID_FIELD",
+      path: "taxiProduct",
+      message: `must be one of ${TAXI_PRODUCTS.join(", ")}`,
+    });
+  }
+
+  if (isPresent(body.passengers)) {
+    checkCount(body.passengers, "passengers", 1, MAX_PASSENGERS, issues);
+  }
+  if (isPresent(body.fareCategories)) {
+    const categories = body.fareCategories;
+    if (!isRecord(categories)) {
+      issues.push({
+        code: "INVALID_FIELD",
+        path: "fareCategories",
+        message: "must be an object",
+      });
+    } else {
+      const passengers = isFiniteNumber(body.passengers) ? body.passengers : 1;
+      let discounted = 0;
+      for (const category of DISCOUNTED_FARE_CATEGORIES) {
+        if (!isPresent(categories[category])) continue;
+        checkCount(
+          categories[category],
+          `fareCategories.${category}`,
+          0,
+          MAX_PASSENGERS,
+          issues
+        );
+        if (isFiniteNumber(categories[category])) {
+          discounted += categories[category];
+        }
+      }
+      if (discounted > passengers) {
+        issues.push({
+          code: "INVALID_FIELD",
+          path: "fareCategories",
+          message: "must not count more riders than passengers",
+        });
+      }
+    }
+  }
+
+  if (isPresent(body.fareProfile)) {
+    const profile = body.fareProfile;
+    if (!isRecord(profile)) {
+      issues.push({
+        code: "INVALID_FIELD",
+        path: "fareProfile",
+        message: "must be an object",
+      });
+    } else {
+      if (
+        isPresent(profile.category) &&
+        !FARE_CATEGORIES.includes(profile.category as FareCategory)
+      ) {
+        issues.push({
+          code: "INVALID_FIELD",
+          path: "fareProfile.category",
+          message: `must be one of ${FARE_CATEGORIES.join(", ")}`,
+        });
+      }
+      if (
+        isPresent(profile.pass) &&
+        !TRANSIT_PASSES.includes(profile.pass as TransitPass)
+      ) {
+        issues.push({
+          code: "INVALID_FIELD",
+          path: "fareProfile.pass",
+          message: `must be one of ${TRANSIT_PASSES.join(", ")}`,
+        });
+      }
+    }
+  }
+
+  const departAt = parseTime(body.departureTime, "departureTime", issues);
+  const arriveBy = parseTime(body.arriveBy, "arriveBy", issues);
+  if (arriveBy !== null && arriveBy <= (departAt ?? now.getTime())) {
+    issues.push({
+      code: "INVALID_TIME",
+      path: "arriveBy",
+      message: "must be later than the departure time",
+    });
+  }
+
+  if (isPresent(body.scoring)) {
+    if (!isRecord(body.scoring)) {
+      issues.push({
+        code: "INVALID_FIELD",
+        path: "scoring",
+        message: "must be an object",
+      });
+    } else {
+      // A negative weight would rank slower or longer-walk routes first.
+      for (const key of [
+        "valueOfTimeKrwPerMin",
+        "walkPenaltyKrwPerMin",
+        "transferPenaltyKrw",
+      ]) {
+        const value = body.scoring[key];
+        if (isPresent(value) && (!isFiniteNumber(value) || value < 0)) {
+          issues.push({
+            code: "INVALID_FIELD",
+            path: `scoring.${key}`,
+            message: "must be a non-negative number",
+          });
+        }
+      }
+    }
+  }
+
+  if (isPresent(body.accessibility)) {
+    const accessibility = body.accessibility;
+    if (!isRecord(accessibility)) {
+      issues.push({
+        code: "INVALID_FIELD",
+        path: "accessibility",
+        message: "must be an object",
+      });
+    } else {
+      if (isPresent(accessibility.walkSpeedMPerMin)) {
+        checkRange(
+          accessibility.walkSpeedMPerMin,
+          "accessibility.walkSpeedMPerMin",
+          MIN_WALK_SPEED_M_PER_MIN,
+          MAX_WALK_SPEED_M_PER_MIN,
+          issues
+        );
+      }
+      if (isPresent(accessibility.extraTransferMin)) {
+        checkRange(
+          accessibility.extraTransferMin,
+          "accessibility.extraTransferMin",
+          0,
+          MAX_EXTRA_TRANSFER_MIN,
+          issues
+        );
+      }
+      checkOptional(
+        accessibility,
+        "stepFreeOnly",
+        "boolean",
+        issues,
+        "accessibility."
+      );
+    }
+  }
+
+  if (issues.length > 0) return { ok: false, issues };
+  return { ok: true, request: toRouteRequest(body) };
+}
+
+// Only reads fields validateRouteRequest has checked, so each value already
+// has the type it is read as. Unknown keys are dropped.
+function optional<T>(value: unknown): T | undefined {
+  return isPresent(value) ? (value as T) : undefined;
+}
+
+// Absent fields stay absent, so spreading a part of the request over its
+// defaults keeps them.
+function withoutUndefined<T extends object>(value: T): T {
+  return Object.fromEntries(
+    Object.entries(value).filter(([, field]) => field !== undefined)
+  ) as T;
+}
+
+function toLocation(value: UnknownRecord): Location {
+  return {
+    name: value.name as string,
+    lat: value.lat as number,
+    lng: value.lng as number,
+  };
+}
+
+function toRouteRequest(body: UnknownRecord): RouteRequest {
+  const fareCategories = optional<UnknownRecord>(body.fareCategories);
+  const fareProfile = optional<UnknownRecord>(body.fareProfile);
+  const scoring = optional<UnknownRecord>(body.scoring);
+  const accessibility = optional<UnknownRecord>(body.accessibility);
+
+  return withoutUndefined({
+    origin: toLocation(body.origin as UnknownRecord),
+    destination: toLocation(body.destination as UnknownRecord),
+    maxTimeMin: optional<number>(body.maxTimeMin),
+    maxWalkMin: body.maxWalkMin as number,
+    requireTaxi: optional<boolean>(body.requireTaxi),
+    taxiMaxSegments: optional<number>(body.taxiMaxSegments),
+    taxiProduct: optional<TaxiProduct>(body.taxiProduct),
+    passengers: optional<number>(body.passengers),
+    fareCategories:
+      fareCategories &&
+      withoutUndefined({
+        youth: optional<number>(fareCategories.youth),
+        child: optional<number>(fareCategories.child),
+        senior: optional<number>(fareCategories.senior),
+      }),
+    fareProfile:
+      fareProfile &&
+      withoutUndefined({
+        category: optional<FareCategory>(fareProfile.category),
+        pass: optional<TransitPass>(fareProfile.pass),
+      }),
+    departureTime: optional<string>(body.departureTime),
+    arriveBy: optional<string>(body.arriveBy),
+    clientId: optional<string>(body.clientId),
+    scoring:
+      scoring &&
+      withoutUndefined({
+        valueOfTimeKrwPerMin: optional<number>(scoring.valueOfTimeKrwPerMin),
+        walkPenaltyKrwPerMin: optional<number>(scoring.walkPenaltyKrwPerMin),
+        transferPenaltyKrw: optional<number>(scoring.transferPenaltyKrw),
+      }),
+    accessibility:
+      accessibility &&
+      withoutUndefined({
+        walkSpeedMPerMin: optional<number>(accessibility.walkSpeedMPerMin),
+        extraTransferMin: optional<number>(accessibility.extraTransferMin),
+        stepFreeOnly: optional<boolean>(accessibility.stepFreeOnly),
+      }),
+    transitSource: optional<TransitSource>(body.transitSource),
+    debug: optional<boolean>(body.debug),
+  });
+}
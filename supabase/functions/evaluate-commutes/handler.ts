@@ -0,0 +1,272 @@
+import { mapWithConcurrency } from "../_shared/concurrency.ts";
+import {
+  RouteCandidate,
+  RouteRequest,
+  RouteResponse,
+  TransitDetails,
+  validateRouteRequest,
+} from "../_shared/routeContract.ts";
+import { supabaseAdmin } from "../_shared/supabaseAdmin.ts";
+import {
+  findOptimalRoute,
+  recordSearch,
+} from "../find-optimal-route/handler.ts";
+import { KST_OFFSET_MS } from "../find-optimal-route/serviceHours.ts";
+
+const SUPABASE_SERVICE_ROLE_KEY =
+  Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") || "";
+
+// How long before the commute starts it is evaluated, so the banner is
+// waiting when the user checks before heading out.
+const EVALUATE_AHEAD_MIN = 45;
+const DEFAULT_MAX_TIME_MIN = 60;
+const COMMUTE_EVAL_CONCURRENCY = 2;
+
+export type CommuteTimeMode = "depart" | "arrive";
+
+export interface CommutePresetRow {
+  id: string;
+  client_id: string;
+  label: string;
+  // A RouteRequest without its times or client id.
+  request: Omit<RouteRequest, "departureTime" | "arriveBy" | "clientId">;
+  time_mode: CommuteTimeMode;
+  // "HH:MM" or "HH:MM:SS", KST.
+  time_of_day: string;
+  weekdays: number[];
+}
+
+export interface CommuteSchedule {
+  serviceDate: string;
+  // The preset's departure or arrival time on `serviceDate`.
+  targetIso: string;
+  // When the trip has to start at the latest, for arrive-by presets the
+  // target minus the time budget.
+  startsAt: Date;
+}
+
+export interface CommuteSummary {
+  headline: string;
+  leaveBy: string | null;
+  routeType: RouteCandidate["type"] | null;
+  totalCostKrw: number | null;
+  savingsKrw: number | null;
+}
+
+function kstServiceDate(now: Date): string {
+  return new Date(now.getTime() + KST_OFFSET_MS).toISOString().slice(0, 10);
+}
+
+export function commuteSchedule(
+  preset: CommutePresetRow,
+  now: Date
+): CommuteSchedule {
+  const serviceDate = kstServiceDate(now);
+  const targetIso = `${serviceDate}T${preset.time_of_day.slice(0, 5)}:00+09:00`;
+  const target = new Date(targetIso);
+  const budgetMin =
+    preset.time_mode === "arrive"
+      ? preset.request.maxTimeMin || DEFAULT_MAX_TIME_MIN
+      : 0;
+  return {
+    serviceDate,
+    targetIso,
+    startsAt: new Date(target.getTime() - budgetMin * 60000),
+  };
+}
+
+// ISO weekday (1 = Monday) in KST.
+function kstWeekday(now: Date): number {
+  const day = new Date(now.getTime() + KST_OFFSET_MS).getUTCDay();
+  return day === 0 ? 7 : day;
+}
+
+export function isDue(preset: CommutePresetRow, now: Date): boolean {
+  if (!preset.weekdays.includes(kstWeekday(now))) return false;
+  const { startsAt } = commuteSchedule(preset, now);
+  const evaluateAt = startsAt.getTime() - EVALUATE_AHEAD_MIN * 60000;
+  return now.getTime() >= evaluateAt && now.getTime() < startsAt.getTime();
+}
+
+function modeLabel(route: RouteCandidate): string {
+  const modes = new Set<string>();
+  for (const leg of route.legs) {
+    if (leg.type === "taxi") modes.add("택시");
+    if (leg.type === "transit") {
+      const details = leg.details as TransitDetails | undefined;
+      if (details?.subwayCount) modes.add("지하철");
+      if (details?.busCount) modes.add("버스");
+      if (!details?.subwayCount && !details?.busCount) modes.add("대중교통");
+    }
+  }
+  return modes.size > 0 ? [...modes].join("+") : "도보";
+}
+
+// 이 after a final consonant, 가 after a vowel.
+function subjectParticle(word: string): string {
+  const code = word.charCodeAt(word.length - 1) - 0xac00;
+  return code >= 0 && code < 11172 && code % 28 !== 0 ? "이" : "가";
+}
+
+export function summarizeCommute(result: RouteResponse): CommuteSummary {
+  const best = result.routes[0];
+  if (!best || result.noFeasibleRoute) {
+    return {
+      headline: "오늘은 제시간에 도착하는 경로가 없어요",
+      leaveBy: null,
+      routeType: null,
+      totalCostKrw: null,
+      savingsKrw: null,
+    };
+  }
+
+  const label = modeLabel(best);
+  const subject = `${label}${subjectParticle(label)}`;
+  const savingsKrw =
+    best.hasTaxi && best.type !== "taxi-only" && result.taxiOnly
+      ? result.taxiOnly.totalCostKrw - best.totalCostKrw
+      : null;
+
+  return {
+    headline:
+      savingsKrw !== null && savingsKrw > 0
+        ? `오늘은 ${subject} ${savingsKrw.toLocaleString("ko-KR")}원 더 싸요`
+        : `오늘은 ${subject} 가장 좋아요`,
+    leaveBy: best.leaveBy ?? best.departureTime ?? null,
+    routeType: best.type,
+    totalCostKrw: best.totalCostKrw,
+    savingsKrw,
+  };
+}
+
+// Arrive-by presets search from the latest start, not from the evaluation
+// time, so the preset's time limit still bounds the trip.
+export function commuteRequest(
+  preset: CommutePresetRow,
+  now: Date
+): RouteRequest {
+  const { targetIso, startsAt } = commuteSchedule(preset, now);
+  return {
+    ...preset.request,
+    clientId: preset.client_id,
+    ...(preset.time_mode === "arrive"
+      ? { departureTime: startsAt.toISOString(), arriveBy: targetIso }
+      : { departureTime: targetIso }),
+  };
+}
+
+async function evaluatePreset(
+  preset: CommutePresetRow,
+  now: Date
+): Promise<boolean> {
+  if (!supabaseAdmin) return false;
+
+  const { serviceDate } = commuteSchedule(preset, now);
+  const validation = validateRouteRequest(commuteRequest(preset, now), now);
+  if (!validation.ok) {
+    console.error(
+      `Commute preset ${preset.id} is invalid:`,
+      validation.issues[0].path
+    );
+    return false;
+  }
+
+  const result = await findOptimalRoute(validation.request);
+  if (result.routes.length === 0) {
+    console.error(`Commute preset ${preset.id}: providers did not respond`);
+    return false;
+  }
+
+  const searchId = await recordSearch(validation.request, result);
+  const summary = summarizeCommute(result);
+  const { error } = await supabaseAdmin.from("commute_briefings").upsert(
+    {
+      preset_id: preset.id,
+      client_id: preset.client_id,
+      service_date: serviceDate,
+      headline: summary.headline,
+      leave_by: summary.leaveBy,
+      route_type: summary.routeType,
+      total_cost_krw: summary.totalCostKrw,
+      savings_krw: summary.savingsKrw,
+      search_id: searchId,
+    },
+    { onConflict: "preset_id,service_date" }
+  );
+
+  if (error) {
+    console.error("Commute briefing insert error:", error.message);
+    return false;
+  }
+  return true;
+}
+
+async function evaluateDuePresets(now: Date) {
+  if (!supabaseAdmin) return { due: 0, evaluated: 0 };
+
+  const { data, error } = await supabaseAdmin
+    .from("commute_presets")
+    .select("id, client_id, label, request, time_mode, time_of_day, weekdays")
+    .eq("active", true);
+  if (error) throw new Error(error.message);
+
+  const due = ((data ?? []) as CommutePresetRow[]).filter((preset) =>
+    isDue(preset, now)
+  );
+  if (due.length === 0) return { due: 0, evaluated: 0 };
+
+  // A preset stays due for the whole window, so skip the ones an earlier
+  // run already briefed today.
+  const { data: briefed, error: briefedError } = await supabaseAdmin
+    .from("commute_briefings")
+    .select("preset_id")
+    .in(
+      "preset_id",
+      due.map((preset) => preset.id)
+    )
+    .eq("service_date", kstServiceDate(now));
+  if (briefedError) throw new Error(briefedError.message);
+
+  const done = new Set((briefed ?? []).map((row) => row.preset_id));
+  const pending = due.filter((preset) => !done.has(preset.id));
+  const { results } = await mapWithConcurrency(
+    pending,
+    COMMUTE_EVAL_CONCURRENCY,
+    (preset) => evaluatePreset(preset, now)
+  );
+  return { due: pending.length, evaluated: results.filter(Boolean).length };
+}
+
+function jsonResponse(status: number, body: unknown): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+}
+
+// Invoked by pg_cron with the service role key; nothing else may trigger
+// route searches on every user's behalf.
+export async function handleRequest(req: Request): Promise<Response> {
+  const authorization = req.headers.get("Authorization") ?? "";
+  if (
+    !SUPABASE_SERVICE_ROLE_KEY ||
+    authorization !== `Bearer ${SUPABASE_SERVICE_ROLE_KEY}`
+  ) {
+    return jsonResponse(401, { success: false, error: "UNAUTHORIZED" });
+  }
+
+  try {
+    const summary = await evaluateDuePresets(new Date());
+    console.log(
+      `Evaluated ${summary.evaluated} of ${summary.due} due commute presets`
+    );
+    return jsonResponse(200, { success: true, ...summary });
+  } catch (error) {
+    console.error("Function error:", error);
+    return jsonResponse(500, {
+      success: false,
+      error: "INTERNAL_ERROR",
+      message: error instanceof Error ? error.message : "Unknown error",
+    });
+  }
+}
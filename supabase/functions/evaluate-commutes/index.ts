@@ -0,0 +1,4 @@
+import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import { handleRequest } from "./handler.ts";
+
+Deno.serve(handleRequest);
@@ -0,0 +1,89 @@
+import { AccessibilityProfile } from "../_shared/routeContract.ts";
+import { loadStopAccess } from "./gtfs/feed.ts";
+
+export const WALK_SPEED_M_PER_MIN = 70;
+const SUBWAY_TRANSFER_WALK_MIN = 3;
+const BUS_TRANSFER_WALK_MIN = 1;
+
+export interface WalkingProfile {
+  walkSpeedMPerMin: number;
+  subwayTransferWalkMin: number;
+  busTransferWalkMin: number;
+  stepFreeOnly: boolean;
+}
+
+export const DEFAULT_WALKING: WalkingProfile = {
+  walkSpeedMPerMin: WALK_SPEED_M_PER_MIN,
+  subwayTransferWalkMin: SUBWAY_TRANSFER_WALK_MIN,
+  busTransferWalkMin: BUS_TRANSFER_WALK_MIN,
+  stepFreeOnly: false,
+};
+
+export function walkingProfile(
+  accessibility?: AccessibilityProfile
+): WalkingProfile {
+  if (!accessibility) return DEFAULT_WALKING;
+  const extraTransferMin = accessibility.extraTransferMin ?? 0;
+  return {
+    walkSpeedMPerMin:
+      accessibility.walkSpeedMPerMin ?? DEFAULT_WALKING.walkSpeedMPerMin,
+    subwayTransferWalkMin: SUBWAY_TRANSFER_WALK_MIN + extraTransferMin,
+    busTransferWalkMin: BUS_TRANSFER_WALK_MIN + extraTransferMin,
+    stepFreeOnly: accessibility.stepFreeOnly ?? false,
+  };
+}
+
+export type StepFreeAccess = "step-free" | "stairs" | "unknown";
+
+let stationAccess = new Map<string, StepFreeAccess>();
+let accessLoad: Promise<void> | null = null;
+
+// Kakao and TMAP name stations "강남역 2호선", "서울역(1호선)" or "강남".
+function baseStationName(name: string): string {
+  return name
+    .replace(/\(.*\)$/, "")
+    .replace(/역(\s.*)?$/, "")
+    .trim();
+}
+
+// Step-free access comes from wheelchair_boarding in the GTFS feed's
+// stops.txt. One stop rated without step-free access marks the whole
+// station; stations the feed doesn't rate stay unknown. Loaded once per
+// isolate; a failed load is retried on the next request.
+export function loadStepFreeStations(): Promise<void> {
+  if (!accessLoad) {
+    const feedUrl = Deno.env.get("GTFS_FEED_URL") || "";
+    if (!feedUrl) {
+      console.error("GTFS_FEED_URL not set; step-free access is unknown");
+      accessLoad = Promise.resolve();
+      return accessLoad;
+    }
+    accessLoad = loadStopAccess(feedUrl)
+      .then((stops) => {
+        const access = new Map<string, StepFreeAccess>();
+        for (const stop of stops) {
+          if (stop.wheelchairBoarding === 0) continue;
+          const name = baseStationName(stop.name);
+          if (access.get(name) === "stairs") continue;
+          access.set(
+            name,
+            stop.wheelchairBoarding === 1 ? "step-free" : "stairs"
+          );
+        }
+        stationAccess = access;
+      })
+      .catch((error) => {
+        console.error("Step-free station load error:", error);
+        accessLoad = null;
+      });
+  }
+  return accessLoad;
+}
+
+export function stepFreeAccess(stationName: string): StepFreeAccess {
+  return stationAccess.get(baseStationName(stationName)) ?? "unknown";
+}
+
+export function hasStepFreeAccess(stationName: string): boolean {
+  return stepFreeAccess(stationName) === "step-free";
+}
@@ -0,0 +1,116 @@
+import {
+  FareCategory,
+  RouteRequest,
+  StepFare,
+  TransitPass,
+} from "../_shared/routeContract.ts";
+import { FareRide, passCovers } from "./transitPasses.ts";
+
+// Share of the adult card fare paid by each category, after Seoul card fares
+// (subway adult 1,550 / youth 900 / child 550 won). Seniors ride the subway
+// free but pay the full bus fare.
+const FARE_RATIOS: Record<FareCategory, Record<FareRide["mode"], number>> = {
+  adult: { BUS: 1, SUBWAY: 1 },
+  youth: { BUS: 0.58, SUBWAY: 0.58 },
+  child: { BUS: 0.35, SUBWAY: 0.35 },
+  senior: { BUS: 1, SUBWAY: 0 },
+};
+
+export interface Rider {
+  category: FareCategory;
+  pass?: TransitPass;
+}
+
+// The searcher comes first.
+export type Party = Rider[];
+
+export const SOLO: Party = [{ category: "adult" }];
+
+export function partyOf(req: RouteRequest): Party {
+  const counts: Record<FareCategory, number> = {
+    adult: 0,
+    youth: req.fareCategories?.youth ?? 0,
+    child: req.fareCategories?.child ?? 0,
+    senior: req.fareCategories?.senior ?? 0,
+  };
+  counts.adult =
+    (req.passengers ?? 1) - counts.youth - counts.child - counts.senior;
+
+  // The searcher is one of the counted riders: theirs if their category was
+  // counted, otherwise one of the adults.
+  const searcher: Rider = {
+    category: req.fareProfile?.category ?? "adult",
+    pass: req.fareProfile?.pass,
+  };
+  if (counts[searcher.category] > 0) counts[searcher.category]--;
+  else if (counts.adult > 0) counts.adult--;
+
+  const others = (Object.keys(counts) as FareCategory[]).flatMap((category) =>
+    Array.from({ length: counts[category] }, () => ({ category }))
+  );
+  return [searcher, ...others];
+}
+
+export function partySize(party: Party): number {
+  return party.length;
+}
+
+export interface PricedRide extends FareRide {
+  distanceM: number;
+}
+
+export interface TransitFare {
+  costKrw: number;
+  // Index-aligned with the rides.
+  searcherFares: StepFare[];
+}
+
+// Transit sources quote one adult fare for the whole trip. It is split over
+// the rides by distance so each rider's discounts and pass apply per ride,
+// and each rider's total is rounded up to 10 won like the card readers.
+export function priceTransitFare(
+  adultFareKrw: number,
+  rides: PricedRide[],
+  party: Party
+): TransitFare {
+  const totalM = rides.reduce((sum, ride) => sum + ride.distanceM, 0);
+  let allocated = 0;
+  const shares = rides.map((ride, i) => {
+    if (i === rides.length - 1) return adultFareKrw - allocated;
+    const share = Math.round(
+      totalM > 0
+        ? (adultFareKrw * ride.distanceM) / totalM
+        : adultFareKrw / rides.length
+    );
+    allocated += share;
+    return share;
+  });
+
+  const fareFor = (rider: Rider) =>
+    rides.map((ride, i): StepFare => {
+      if (rider.pass && passCovers(rider.pass, ride)) {
+        return { baseKrw: shares[i], paidKrw: 0, discount: rider.pass };
+      }
+      const ratio = FARE_RATIOS[rider.category][ride.mode];
+      return {
+        baseKrw: shares[i],
+        paidKrw: Math.round(shares[i] * ratio),
+        ...(rider.category !== "adult" && { discount: rider.category }),
+      };
+    });
+  const roundedTotal = (fares: StepFare[]) =>
+    Math.ceil(fares.reduce((sum, fare) => sum + fare.paidKrw, 0) / 10) * 10;
+
+  const searcherFares = fareFor(party[0]);
+  const costKrw = party
+    .slice(1)
+    .reduce(
+      (total, rider) => total + roundedTotal(fareFor(rider)),
+      roundedTotal(searcherFares)
+    );
+  return { costKrw, searcherFares };
+}
+
+export function taxisNeeded(party: Party, capacity: number): number {
+  return Math.ceil(partySize(party) / capacity);
+}
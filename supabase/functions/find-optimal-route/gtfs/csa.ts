@@ -0,0 +1,185 @@
+import { GtfsFeed } from "./feed.ts";
+
+const DAY_SEC = 24 * 60 * 60;
+// Time to get off one vehicle and onto another at the same stop.
+const MIN_TRANSFER_SEC = 60;
+
+export interface StopWalk {
+  stop: number;
+  sec: number;
+  distM: number;
+}
+
+export interface JourneyQuery {
+  // Seconds after midnight of the service day the search starts on.
+  departSec: number;
+  // Journeys arriving at or after this are not worth reporting.
+  maxArrivalSec: number;
+  access: StopWalk[];
+  egress: StopWalk[];
+  // Trips running on the previous service day (whose times run past 24:00)
+  // and on the search day.
+  activeTripsPrevDay: Uint8Array;
+  activeTrips: Uint8Array;
+  bannedRoutes?: Set<number>;
+}
+
+export type JourneyLeg =
+  | { kind: "access"; to: number; sec: number; distM: number }
+  | { kind: "ride"; board: number; alight: number; dayOffsetSec: number }
+  | { kind: "transfer"; from: number; to: number; sec: number; distM: number }
+  | { kind: "egress"; from: number; sec: number; distM: number };
+
+export interface Journey {
+  arrivalSec: number;
+  legs: JourneyLeg[];
+}
+
+type StopLabel =
+  | { kind: "access"; walk: StopWalk }
+  | { kind: "ride"; board: number; alight: number; dayOffsetSec: number }
+  | { kind: "transfer"; from: number; sec: number; distM: number };
+
+function firstDepartureAtOrAfter(feed: GtfsFeed, sec: number): number {
+  const { depSec, count } = feed.connections;
+  let lo = 0;
+  let hi = count;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (depSec[mid] < sec) lo = mid + 1;
+    else hi = mid;
+  }
+  return lo;
+}
+
+// Earliest-arrival Connection Scan (Dibbelt et al.). The previous service
+// day is scanned alongside the search day, shifted back by 24 hours, so
+// after-midnight trips are found.
+export function earliestArrival(
+  feed: GtfsFeed,
+  query: JourneyQuery
+): Journey | null {
+  const { connections, trips, footpaths } = feed;
+  const stopCount = feed.stops.length;
+  const arrival = new Float64Array(stopCount).fill(Infinity);
+  const ready = new Float64Array(stopCount).fill(Infinity);
+  const labels: Array<StopLabel | undefined> = new Array(stopCount);
+  const egressSec = new Map(query.egress.map((walk) => [walk.stop, walk]));
+  const lanes = [
+    {
+      offset: -DAY_SEC,
+      active: query.activeTripsPrevDay,
+      boarded: new Int32Array(trips.length).fill(-1),
+      next: firstDepartureAtOrAfter(feed, query.departSec + DAY_SEC),
+    },
+    {
+      offset: 0,
+      active: query.activeTrips,
+      boarded: new Int32Array(trips.length).fill(-1),
+      next: firstDepartureAtOrAfter(feed, query.departSec),
+    },
+  ];
+
+  const best = {
+    arrival: query.maxArrivalSec,
+    egress: null as StopWalk | null,
+  };
+  const reach = (stop: number, time: number, label: StopLabel) => {
+    arrival[stop] = time;
+    ready[stop] = label.kind === "ride" ? time + MIN_TRANSFER_SEC : time;
+    labels[stop] = label;
+    const walk = egressSec.get(stop);
+    if (walk && time + walk.sec < best.arrival) {
+      best.arrival = time + walk.sec;
+      best.egress = walk;
+    }
+  };
+
+  for (const walk of query.access) {
+    const time = query.departSec + walk.sec;
+    if (time < arrival[walk.stop]) {
+      reach(walk.stop, time, { kind: "access", walk });
+    }
+  }
+
+  for (;;) {
+    let lane = null;
+    for (const candidate of lanes) {
+      if (candidate.next >= connections.count) continue;
+      const dep = connections.depSec[candidate.next] + candidate.offset;
+      if (!lane || dep < connections.depSec[lane.next] + lane.offset) {
+        lane = candidate;
+      }
+    }
+    if (!lane) break;
+
+    const c = lane.next++;
+    const dep = connections.depSec[c] + lane.offset;
+    if (dep >= best.arrival) break;
+
+    const trip = connections.trip[c];
+    if (!lane.active[trip]) continue;
+    if (query.bannedRoutes?.has(trips[trip].route)) continue;
+
+    const from = connections.from[c];
+    if (lane.boarded[trip] < 0) {
+      if (ready[from] > dep) continue;
+      lane.boarded[trip] = c;
+    }
+
+    const to = connections.to[c];
+    const arr = connections.arrSec[c] + lane.offset;
+    if (arr >= arrival[to]) continue;
+
+    reach(to, arr, {
+      kind: "ride",
+      board: lane.boarded[trip],
+      alight: c,
+      dayOffsetSec: lane.offset,
+    });
+    for (const path of footpaths[to]) {
+      const walkArrival = arr + path.sec;
+      if (walkArrival < arrival[path.to]) {
+        reach(path.to, walkArrival, {
+          kind: "transfer",
+          from: to,
+          sec: path.sec,
+          distM: path.distM,
+        });
+      }
+    }
+  }
+
+  const egress = best.egress;
+  if (!egress) return null;
+
+  const legs: JourneyLeg[] = [
+    {
+      kind: "egress",
+      from: egress.stop,
+      sec: egress.sec,
+      distM: egress.distM,
+    },
+  ];
+  for (let stop = egress.stop; ; ) {
+    const label = labels[stop]!;
+    if (label.kind === "access") {
+      legs.push({
+        kind: "access",
+        to: stop,
+        sec: label.walk.sec,
+        distM: label.walk.distM,
+      });
+      break;
+    }
+    if (label.kind === "ride") {
+      legs.push(label);
+      stop = connections.from[label.board];
+    } else {
+      legs.push({ ...label, to: stop });
+      stop = label.from;
+    }
+  }
+
+  return { arrivalSec: best.arrival, legs: legs.reverse() };
+}
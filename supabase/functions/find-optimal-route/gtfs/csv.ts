@@ -0,0 +1,58 @@
+// Minimal RFC 4180 reader for GTFS text files: quoted fields, escaped quotes,
+// CRLF line endings and a leading byte-order mark. Records are built row by
+// row, so rows `keep` rejects never pile up in memory.
+export function parseCsv(
+  text: string,
+  keep?: (record: Record<string, string>) => boolean
+): Array<Record<string, string>> {
+  const records: Array<Record<string, string>> = [];
+  let columns: string[] | null = null;
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+
+  const endRow = () => {
+    row.push(field);
+    const values = row;
+    row = [];
+    field = "";
+    if (values.length === 1 && values[0] === "") return;
+    if (!columns) {
+      columns = values.map((name) => name.trim());
+      return;
+    }
+    const record: Record<string, string> = {};
+    columns.forEach((name, i) => {
+      record[name] = (values[i] ?? "").trim();
+    });
+    if (!keep || keep(record)) records.push(record);
+  };
+
+  const start = text.charCodeAt(0) === 0xfeff ? 1 : 0;
+  for (let i = start; i < text.length; i++) {
+    const ch = text[i];
+    if (inQuotes) {
+      if (ch !== '"') {
+        field += ch;
+      } else if (text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else {
+        inQuotes = false;
+      }
+    } else if (ch === '"') {
+      inQuotes = true;
+    } else if (ch === ",") {
+      row.push(field);
+      field = "";
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && text[i + 1] === "\n") i++;
+      endRow();
+    } else {
+      field += ch;
+    }
+  }
+  if (field !== "" || row.length > 0) endRow();
+
+  return records;
+}
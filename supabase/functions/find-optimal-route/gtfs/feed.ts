@@ -0,0 +1,460 @@
+import { calculateDistance } from "../../_shared/geo.ts";
+import { GeoPoint, Station } from "../providers/types.ts";
+import { parseCsv } from "./csv.ts";
+
+export type GtfsMode = "BUS" | "SUBWAY";
+
+export interface GtfsRoute {
+  name: string;
+  color?: string;
+  mode: GtfsMode;
+  // The raw route_type and the agency running the route, for fare rules
+  // that go by operator rather than route number.
+  type: number;
+  agency?: string;
+}
+
+export interface GtfsTrip {
+  route: number;
+  serviceId: string;
+}
+
+export interface Footpath {
+  to: number;
+  sec: number;
+  distM: number;
+}
+
+// One vehicle hop between consecutive stops of a trip. Connections are
+// stored column-wise, sorted by departure, because a city-wide feed has
+// millions of them.
+export interface ConnectionTable {
+  count: number;
+  trip: Int32Array;
+  from: Int32Array;
+  to: Int32Array;
+  depSec: Int32Array;
+  arrSec: Int32Array;
+  // Position of `from` within the trip, and distance travelled along the
+  // trip up to each end of the hop.
+  fromIndex: Int32Array;
+  fromDistM: Float64Array;
+  toDistM: Float64Array;
+}
+
+interface ServiceCalendar {
+  weekdays: boolean[];
+  startDate: string;
+  endDate: string;
+}
+
+export interface GtfsFeed {
+  stops: Station[];
+  routes: GtfsRoute[];
+  trips: GtfsTrip[];
+  connections: ConnectionTable;
+  // Stop sequence of each trip, for drawing rides.
+  tripStops: number[][];
+  footpaths: Footpath[][];
+  calendars: Map<string, ServiceCalendar>;
+  // "serviceId:YYYYMMDD" -> true when added, false when removed.
+  calendarExceptions: Map<string, boolean>;
+  stopGrid: Map<string, number[]>;
+}
+
+export interface FeedBounds {
+  minLat: number;
+  minLng: number;
+  maxLat: number;
+  maxLng: number;
+}
+
+export const WALK_SPEED_M_PER_SEC = 70 / 60;
+const TRANSFER_RADIUS_M = 250;
+const GRID_DEG = 0.01;
+const METERS_PER_DEG_LAT = 111_000;
+// Longitude degrees shrink with latitude; this is the value at the northern
+// edge of the service area, so grid lookups never miss a stop.
+const METERS_PER_DEG_LNG = 87_000;
+const WEEKDAY_COLUMNS = [
+  "sunday",
+  "monday",
+  "tuesday",
+  "wednesday",
+  "thursday",
+  "friday",
+  "saturday",
+];
+
+// GTFS route_type, including the extended types Korean feeds use.
+function routeMode(routeType: number): GtfsMode {
+  if (routeType === 0 || routeType === 1 || routeType === 2) return "SUBWAY";
+  if (routeType >= 100 && routeType < 200) return "SUBWAY";
+  if (routeType >= 400 && routeType < 500) return "SUBWAY";
+  return "BUS";
+}
+
+function parseGtfsTime(value: string): number | null {
+  const match = /^(\d+):(\d{2}):(\d{2})$/.exec(value);
+  if (!match) return null;
+  return Number(match[1]) * 3600 + Number(match[2]) * 60 + Number(match[3]);
+}
+
+function gridKey(row: number, col: number): string {
+  return `${row}:${col}`;
+}
+
+function gridCell(point: GeoPoint): [number, number] {
+  return [Math.floor(point.lat / GRID_DEG), Math.floor(point.lng / GRID_DEG)];
+}
+
+function withinBounds(point: GeoPoint, bounds: FeedBounds): boolean {
+  return (
+    point.lat >= bounds.minLat &&
+    point.lat <= bounds.maxLat &&
+    point.lng >= bounds.minLng &&
+    point.lng <= bounds.maxLng
+  );
+}
+
+export function walkSeconds(distM: number): number {
+  return Math.ceil(distM / WALK_SPEED_M_PER_SEC);
+}
+
+export function nearbyStops(
+  feed: Pick<GtfsFeed, "stops" | "stopGrid">,
+  center: GeoPoint,
+  radiusM: number
+): Array<{ stop: number; distM: number }> {
+  const [row, col] = gridCell(center);
+  const rowSpan = Math.ceil(radiusM / (GRID_DEG * METERS_PER_DEG_LAT));
+  const colSpan = Math.ceil(radiusM / (GRID_DEG * METERS_PER_DEG_LNG));
+  const found: Array<{ stop: number; distM: number }> = [];
+
+  for (let r = row - rowSpan; r <= row + rowSpan; r++) {
+    for (let c = col - colSpan; c <= col + colSpan; c++) {
+      for (const stop of feed.stopGrid.get(gridKey(r, c)) ?? []) {
+        const s = feed.stops[stop];
+        const distM = calculateDistance(center.lat, center.lng, s.lat, s.lng);
+        if (distM <= radiusM) found.push({ stop, distM });
+      }
+    }
+  }
+
+  return found.sort((a, b) => a.distM - b.distM);
+}
+
+export function isServiceActive(
+  feed: GtfsFeed,
+  serviceId: string,
+  date: string,
+  weekday: number
+): boolean {
+  const exception = feed.calendarExceptions.get(`${serviceId}:${date}`);
+  if (exception !== undefined) return exception;
+  const calendar = feed.calendars.get(serviceId);
+  if (!calendar) return false;
+  return (
+    calendar.weekdays[weekday] &&
+    date >= calendar.startDate &&
+    date <= calendar.endDate
+  );
+}
+
+async function readFeedFile(
+  baseUrl: string,
+  name: string,
+  required: boolean,
+  keep?: (record: Record<string, string>) => boolean
+): Promise<Array<Record<string, string>>> {
+  const url = new URL(name, baseUrl.endsWith("/") ? baseUrl : `${baseUrl}/`);
+  try {
+    const response = await fetch(url);
+    if (response.ok) return parseCsv(await response.text(), keep);
+    await response.body?.cancel();
+  } catch (error) {
+    if (required) throw error;
+    return [];
+  }
+  if (required) throw new Error(`GTFS file missing: ${url}`);
+  return [];
+}
+
+function buildConnections(
+  stopTimes: Array<Record<string, string>>,
+  stops: Station[],
+  stopIndex: Map<string, number>,
+  tripIndex: Map<string, number>
+): { connections: ConnectionTable; tripStops: number[][] } {
+  const byTrip = new Map<number, Array<Record<string, string>>>();
+  for (const row of stopTimes) {
+    const trip = tripIndex.get(row.trip_id);
+    if (trip === undefined || !stopIndex.has(row.stop_id)) continue;
+    let rows = byTrip.get(trip);
+    if (!rows) byTrip.set(trip, (rows = []));
+    rows.push(row);
+  }
+
+  const hops: Array<{
+    trip: number;
+    from: number;
+    to: number;
+    depSec: number;
+    arrSec: number;
+    fromIndex: number;
+    fromDistM: number;
+    toDistM: number;
+  }> = [];
+  const tripStops: number[][] = Array.from(
+    { length: tripIndex.size },
+    () => []
+  );
+
+  for (const [trip, rows] of byTrip) {
+    rows.sort((a, b) => Number(a.stop_sequence) - Number(b.stop_sequence));
+    const stopIds = rows.map((row) => stopIndex.get(row.stop_id)!);
+    tripStops[trip] = stopIds;
+    const arrivals = rows.map((row) => parseGtfsTime(row.arrival_time));
+    const departures = rows.map(
+      (row) =>
+        parseGtfsTime(row.departure_time) ?? parseGtfsTime(row.arrival_time)
+    );
+    // Stops without times are interpolated evenly between the timed ones.
+    for (let i = 0, last = -1; i < rows.length; i++) {
+      if (departures[i] === null) continue;
+      for (let j = last + 1; last >= 0 && j < i; j++) {
+        const t =
+          departures[last]! +
+          ((departures[i]! - departures[last]!) * (j - last)) / (i - last);
+        arrivals[j] = departures[j] = Math.round(t);
+      }
+      last = i;
+    }
+
+    let distM = 0;
+    for (let i = 0; i + 1 < rows.length; i++) {
+      const dep = departures[i];
+      const arr = arrivals[i + 1] ?? departures[i + 1];
+      if (dep === null || arr === null) continue;
+      const a = stops[stopIds[i]];
+      const b = stops[stopIds[i + 1]];
+      const hopM = calculateDistance(a.lat, a.lng, b.lat, b.lng);
+      hops.push({
+        trip,
+        from: stopIds[i],
+        to: stopIds[i + 1],
+        depSec: dep,
+        arrSec: arr,
+        fromIndex: i,
+        fromDistM: distM,
+        toDistM: distM + hopM,
+      });
+      distM += hopM;
+    }
+  }
+
+  hops.sort((a, b) => a.depSec - b.depSec || a.arrSec - b.arrSec);
+
+  const count = hops.length;
+  const table: ConnectionTable = {
+    count,
+    trip: new Int32Array(count),
+    from: new Int32Array(count),
+    to: new Int32Array(count),
+    depSec: new Int32Array(count),
+    arrSec: new Int32Array(count),
+    fromIndex: new Int32Array(count),
+    fromDistM: new Float64Array(count),
+    toDistM: new Float64Array(count),
+  };
+  hops.forEach((hop, i) => {
+    table.trip[i] = hop.trip;
+    table.from[i] = hop.from;
+    table.to[i] = hop.to;
+    table.depSec[i] = hop.depSec;
+    table.arrSec[i] = hop.arrSec;
+    table.fromIndex[i] = hop.fromIndex;
+    table.fromDistM[i] = hop.fromDistM;
+    table.toDistM[i] = hop.toDistM;
+  });
+  return { connections: table, tripStops };
+}
+
+function buildFootpaths(
+  stops: Station[],
+  stopGrid: Map<string, number[]>,
+  stopIndex: Map<string, number>,
+  transfers: Array<Record<string, string>>
+): Footpath[][] {
+  const footpaths: Footpath[][] = stops.map(() => []);
+
+  stops.forEach((stop, i) => {
+    for (const { stop: to, distM } of nearbyStops(
+      { stops, stopGrid },
+      stop,
+      TRANSFER_RADIUS_M
+    )) {
+      if (to !== i) footpaths[i].push({ to, sec: walkSeconds(distM), distM });
+    }
+  });
+
+  // transfers.txt overrides the straight-line estimate; type 3 means the
+  // transfer is impossible.
+  for (const row of transfers) {
+    const from = stopIndex.get(row.from_stop_id);
+    const to = stopIndex.get(row.to_stop_id);
+    if (from === undefined || to === undefined || from === to) continue;
+    const paths = footpaths[from];
+    const existing = paths.findIndex((path) => path.to === to);
+    if (existing >= 0) paths.splice(existing, 1);
+    if (row.transfer_type === "3") continue;
+
+    const a = stops[from];
+    const b = stops[to];
+    const distM = calculateDistance(a.lat, a.lng, b.lat, b.lng);
+    const minSec = Number(row.min_transfer_time);
+    paths.push({
+      to,
+      sec: Number.isFinite(minSec) && minSec > 0 ? minSec : walkSeconds(distM),
+      distM,
+    });
+  }
+
+  return footpaths;
+}
+
+export interface StopAccess {
+  name: string;
+  // GTFS wheelchair_boarding: 0 unknown, 1 step-free, 2 not step-free.
+  wheelchairBoarding: number;
+}
+
+// Only reads stops.txt, so step-free searches don't need the whole feed.
+// Platforms that leave wheelchair_boarding empty inherit their station's.
+export async function loadStopAccess(baseUrl: string): Promise<StopAccess[]> {
+  const rows = await readFeedFile(baseUrl, "stops.txt", true);
+  const byId = new Map(rows.map((row) => [row.stop_id, row]));
+  return rows.map((row) => {
+    const parent = row.parent_station ? byId.get(row.parent_station) : null;
+    return {
+      name: row.stop_name,
+      wheelchairBoarding:
+        Number(row.wheelchair_boarding) ||
+        Number(parent?.wheelchair_boarding) ||
+        0,
+    };
+  });
+}
+
+// With `bounds`, stops outside the box are dropped along with their
+// stop_times, which is what keeps a nationwide feed within isolate memory.
+export async function loadGtfsFeed(
+  baseUrl: string,
+  bounds?: FeedBounds
+): Promise<GtfsFeed> {
+  const stopRows = await readFeedFile(baseUrl, "stops.txt", true);
+
+  const stops: Station[] = [];
+  const stopIndex = new Map<string, number>();
+  const stopGrid = new Map<string, number[]>();
+  for (const row of stopRows) {
+    const lat = Number(row.stop_lat);
+    const lng = Number(row.stop_lon);
+    // Stations (location_type 1) only group platforms; vehicles stop at
+    // the platforms themselves.
+    if (!Number.isFinite(lat) || !Number.isFinite(lng)) continue;
+    if (row.location_type && row.location_type !== "0") continue;
+    if (bounds && !withinBounds({ lat, lng }, bounds)) continue;
+    const index = stops.length;
+    stops.push({ id: row.stop_id, name: row.stop_name, lat, lng });
+    stopIndex.set(row.stop_id, index);
+    const key = gridKey(...gridCell({ lat, lng }));
+    let cell = stopGrid.get(key);
+    if (!cell) stopGrid.set(key, (cell = []));
+    cell.push(index);
+  }
+
+  const [
+    agencyRows,
+    routeRows,
+    tripRows,
+    stopTimeRows,
+    calendarRows,
+    calendarDateRows,
+    transferRows,
+  ] = await Promise.all([
+    readFeedFile(baseUrl, "agency.txt", false),
+    readFeedFile(baseUrl, "routes.txt", true),
+    readFeedFile(baseUrl, "trips.txt", true),
+    readFeedFile(baseUrl, "stop_times.txt", true, (row) =>
+      stopIndex.has(row.stop_id)
+    ),
+    readFeedFile(baseUrl, "calendar.txt", false),
+    readFeedFile(baseUrl, "calendar_dates.txt", false),
+    readFeedFile(baseUrl, "transfers.txt", false),
+  ]);
+
+  // agency_id may be left out when the feed has a single agency.
+  const agencies = new Map(
+    agencyRows.map((row) => [row.agency_id ?? "", row.agency_name])
+  );
+  const soleAgency =
+    agencyRows.length === 1 ? agencyRows[0].agency_name : undefined;
+
+  const routes: GtfsRoute[] = [];
+  const routeIndex = new Map<string, number>();
+  for (const row of routeRows) {
+    routeIndex.set(row.route_id, routes.length);
+    const type = Number(row.route_type);
+    routes.push({
+      name: row.route_short_name || row.route_long_name || row.route_id,
+      color: row.route_color || undefined,
+      mode: routeMode(type),
+      type,
+      agency: agencies.get(row.agency_id ?? "") ?? soleAgency,
+    });
+  }
+
+  const trips: GtfsTrip[] = [];
+  const tripIndex = new Map<string, number>();
+  for (const row of tripRows) {
+    const route = routeIndex.get(row.route_id);
+    if (route === undefined) continue;
+    tripIndex.set(row.trip_id, trips.length);
+    trips.push({ route, serviceId: row.service_id });
+  }
+
+  const calendars = new Map<string, ServiceCalendar>();
+  for (const row of calendarRows) {
+    calendars.set(row.service_id, {
+      weekdays: WEEKDAY_COLUMNS.map((day) => row[day] === "1"),
+      startDate: row.start_date,
+      endDate: row.end_date,
+    });
+  }
+  const calendarExceptions = new Map<string, boolean>();
+  for (const row of calendarDateRows) {
+    calendarExceptions.set(
+      `${row.service_id}:${row.date}`,
+      row.exception_type === "1"
+    );
+  }
+
+  const { connections, tripStops } = buildConnections(
+    stopTimeRows,
+    stops,
+    stopIndex,
+    tripIndex
+  );
+  return {
+    stops,
+    routes,
+    trips,
+    connections,
+    tripStops,
+    footpaths: buildFootpaths(stops, stopGrid, stopIndex, transferRows),
+    calendars,
+    calendarExceptions,
+    stopGrid,
+  };
+}
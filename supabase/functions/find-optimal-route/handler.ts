@@ -0,0 +1,1503 @@
+import { buildCacheKey, createApiCache } from "../_shared/apiCache.ts";
+import { createRequestCoalescer } from "../_shared/coalesce.ts";
+import { mapWithConcurrency } from "../_shared/concurrency.ts";
+import { calculateDistance, geoPoint } from "../_shared/geo.ts";
+import { callerKey, createTokenBucketLimiter } from "../_shared/rateLimit.ts";
+import {
+  RouteCandidate,
+  RouteDebugInfo,
+  RouteErrorCode,
+  RouteErrorResponse,
+  RouteLeg,
+  RouteRequest,
+  RouteResponse,
+  ScoreBreakdown,
+  ScoringModel,
+  TaxiDetails,
+  TaxiProduct,
+  TaxiSuppressionSummary,
+  TransitDetails,
+  TransitStep,
+  validateRouteRequest,
+} from "../_shared/routeContract.ts";
+import { supabaseAdmin } from "../_shared/supabaseAdmin.ts";
+import {
+  detectTaxiRegion,
+  meteredTaxiFareCalculator,
+  surchargedBaseFare,
+  TAXI_PRODUCTS,
+  TaxiFareCalculator,
+} from "./taxiFare.ts";
+import {
+  DEFAULT_WALKING,
+  hasStepFreeAccess,
+  loadStepFreeStations,
+  stepFreeAccess,
+  WALK_SPEED_M_PER_MIN,
+  WalkingProfile,
+  walkingProfile,
+} from "./accessibility.ts";
+import {
+  Party,
+  partyOf,
+  partySize,
+  priceTransitFare,
+  SOLO,
+  taxisNeeded,
+} from "./groupFares.ts";
+import { alignToRealtimeArrivals, applyRealtimeArrivals } from "./realtime.ts";
+import { isAfterLastService } from "./serviceHours.ts";
+import { createProviders } from "./providers/registry.ts";
+import { isTmapConfigured } from "./providers/tmap.ts";
+import {
+  DrivingRoute,
+  GeoPoint,
+  Station,
+  TransitItinerary,
+} from "./providers/types.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "GET, POST, PUT, DELETE, OPTIONS",
+  "Access-Control-Allow-Headers":
+    "Content-Type, Authorization, X-Client-Info, Apikey",
+  "Access-Control-Expose-Headers": "Retry-After",
+};
+
+const DROPOFF_TO_PLATFORM_BUFFER_MIN = 1;
+const POI_RADIUS_MIN = 800;
+const POI_RADIUS_MAX = 3000;
+const TAXI_ROI_WINDOW_PRIMARY: [number, number] = [6, 9];
+const TAXI_ROI_WINDOW_EXPAND: [number, number] = [5, 12];
+const MAX_STATION_CANDIDATES = 15;
+const MAX_SANDWICH_STATIONS_PER_SIDE = 3;
+const QUOTED_FARE_FRESH_MIN = 30;
+const DEFAULT_MAX_TIME_MIN = 60;
+const DEFAULT_SCORING: ScoringModel = {
+  valueOfTimeKrwPerMin: 150,
+  walkPenaltyKrwPerMin: 100,
+  transferPenaltyKrw: 500,
+};
+const SUPPRESS_BASE_FARE_MARGIN_KRW = 500;
+const SUPPRESS_MIN_SAVINGS_VS_TAXI_KRW = 2000;
+const SUPPRESS_MIN_TIME_SAVINGS_VS_TRANSIT_MIN = 5;
+const STATION_EVAL_CONCURRENCY =
+  Number(Deno.env.get("STATION_EVAL_CONCURRENCY")) || 4;
+const SEARCH_DEADLINE_MS = Number(Deno.env.get("SEARCH_DEADLINE_MS")) || 12000;
+const ARRIVE_BY_RETIME_ROUNDS = 3;
+const ARRIVE_BY_SETTLED_MIN = 1;
+
+type CandidateSearch = (
+  startAt: Date,
+  signal?: AbortSignal
+) => Promise<RouteCandidate[]>;
+
+export function estimateWalkTimeMin(
+  totalWalkM: number,
+  subwayTransfers: number = 0,
+  busTransfers: number = 0,
+  walking: WalkingProfile = DEFAULT_WALKING
+): number {
+  const outdoorWalkMin = Math.ceil(totalWalkM / walking.walkSpeedMPerMin);
+  const subwayTransferWalkMin = subwayTransfers * walking.subwayTransferWalkMin;
+  const busTransferWalkMin = busTransfers * walking.busTransferWalkMin;
+  return outdoorWalkMin + subwayTransferWalkMin + busTransferWalkMin;
+}
+
+export function computePoiRadius(
+  maxWalkMin: number,
+  walking: WalkingProfile = DEFAULT_WALKING
+): number {
+  const baseRadius = maxWalkMin * walking.walkSpeedMPerMin * 1.2;
+  return Math.max(POI_RADIUS_MIN, Math.min(baseRadius, POI_RADIUS_MAX));
+}
+
+interface TransitSummary {
+  timeMin: number;
+  costKrw: number;
+  totalWalkM: number;
+  busCount: number;
+  subwayCount: number;
+  steps: TransitStep[];
+  afterLastService: boolean;
+  fareDiscountKrw?: number;
+}
+
+// Transit sources time walks and transfers for an average walker, so slower
+// profiles stretch the walking segments and pad every boarding.
+export function summarizeItinerary(
+  itinerary: TransitItinerary,
+  startTime: Date,
+  walking: WalkingProfile = DEFAULT_WALKING,
+  party: Party = SOLO
+): TransitSummary {
+  let totalWalkM = 0;
+  let busCount = 0;
+  let subwayCount = 0;
+  let afterLastService = false;
+  let elapsedSec = 0;
+  let extraSec = 0;
+  const steps: TransitStep[] = [];
+  const walkStretch = WALK_SPEED_M_PER_MIN / walking.walkSpeedMPerMin;
+
+  for (const segment of itinerary.segments) {
+    let durationSec = segment.durationSec;
+    // Extra time to reach the stop or platform, spent before boarding.
+    let transferExtraSec = 0;
+    if (segment.mode === "WALK") {
+      totalWalkM += segment.distanceM || 0;
+      durationSec = Math.round(segment.durationSec * walkStretch);
+    }
+    if (segment.mode === "BUS") {
+      busCount++;
+      transferExtraSec =
+        (walking.busTransferWalkMin - DEFAULT_WALKING.busTransferWalkMin) * 60;
+    }
+    if (segment.mode === "SUBWAY") {
+      subwayCount++;
+      transferExtraSec =
+        (walking.subwayTransferWalkMin -
+          DEFAULT_WALKING.subwayTransferWalkMin) *
+        60;
+    }
+    elapsedSec += transferExtraSec;
+    extraSec += durationSec - segment.durationSec + transferExtraSec;
+    const stationAccess =
+      walking.stepFreeOnly && segment.mode === "SUBWAY"
+        ? [stepFreeAccess(segment.fromName), stepFreeAccess(segment.toName)]
+        : [];
+    const lacksStepFreeAccess = stationAccess.includes("stairs");
+    const stepFreeAccessUnknown =
+      !lacksStepFreeAccess && stationAccess.includes("unknown");
+
+    const boardingTime = new Date(startTime.getTime() + elapsedSec * 1000);
+    const stepAfterLastService = isAfterLastService(
+      segment.mode,
+      segment.route,
+      boardingTime
+    );
+    afterLastService ||= stepAfterLastService;
+    elapsedSec += durationSec;
+
+    steps.push({
+      mode: segment.mode,
+      from: segment.fromName,
+      to: segment.toName,
+      duration: durationSec,
+      distance: segment.distanceM,
+      route: segment.route,
+      routeColor: segment.routeColor,
+      service: segment.service,
+      stationCount: segment.stationCount,
+      nextStop: segment.nextStopName,
+      ...(stepAfterLastService && { afterLastService: true }),
+      ...(lacksStepFreeAccess && { lacksStepFreeAccess: true }),
+      ...(stepFreeAccessUnknown && { stepFreeAccessUnknown: true }),
+      start: segment.start,
+      end: segment.end,
+      path: segment.path,
+    });
+  }
+
+  const rides = steps.filter(
+    (step): step is TransitStep & { mode: "BUS" | "SUBWAY" } =>
+      step.mode !== "WALK"
+  );
+  const rideSegments = itinerary.segments.filter((s) => s.mode !== "WALK");
+  const fare = priceTransitFare(
+    itinerary.fareKrw,
+    rides.map((ride, i) => ({
+      ...ride,
+      distanceM: ride.distance ?? 0,
+      operator: rideSegments[i].operator,
+      routeType: rideSegments[i].routeType,
+    })),
+    party
+  );
+  // Only searches with a fare profile show what it changed per ride.
+  const searcher = party[0];
+  let fareDiscountKrw: number | undefined;
+  if (searcher.category !== "adult" || searcher.pass) {
+    rides.forEach((ride, i) => (ride.fare = fare.searcherFares[i]));
+    fareDiscountKrw = fare.searcherFares.reduce(
+      (sum, stepFare) => sum + stepFare.baseKrw - stepFare.paidKrw,
+      0
+    );
+  }
+
+  return {
+    timeMin: Math.ceil((itinerary.totalTimeSec + extraSec) / 60),
+    costKrw: fare.costKrw,
+    totalWalkM,
+    busCount,
+    subwayCount,
+    steps,
+    afterLastService,
+    ...(fareDiscountKrw !== undefined && { fareDiscountKrw }),
+  };
+}
+
+function buildTransitLeg(
+  from: string,
+  to: string,
+  transit: TransitSummary
+): RouteLeg {
+  return {
+    type: "transit",
+    from,
+    to,
+    durationMin: transit.timeMin,
+    costKrw: transit.costKrw,
+    details: {
+      totalWalkM: transit.totalWalkM,
+      busCount: transit.busCount,
+      subwayCount: transit.subwayCount,
+      fareDiscountKrw: transit.fareDiscountKrw,
+      steps: transit.steps,
+    },
+  };
+}
+
+// The kind of taxi and how many of them carry the party.
+interface TaxiBooking {
+  product: TaxiProduct;
+  vehicles: number;
+}
+
+interface TaxiTrip extends TaxiBooking {
+  from: GeoPoint;
+  to: GeoPoint;
+  startTime: Date;
+}
+
+interface TaxiQuote {
+  durationMin: number;
+  taxiFare: number;
+  tollFare: number;
+  costKrw: number;
+  details: TaxiDetails;
+  path: GeoPoint[];
+}
+
+function quoteTaxiLeg(
+  ride: DrivingRoute,
+  trip: TaxiTrip,
+  calculator: TaxiFareCalculator = meteredTaxiFareCalculator
+): TaxiQuote {
+  const estimate = calculator.estimate({
+    distanceM: ride.distanceM,
+    durationSec: ride.durationSec,
+    departureTime: trip.startTime,
+    originRegion: detectTaxiRegion(trip.from.lat, trip.from.lng),
+    destinationRegion: detectTaxiRegion(trip.to.lat, trip.to.lng),
+    product: trip.product,
+  });
+  const { callFeeKrw, pickupWait } = TAXI_PRODUCTS[trip.product];
+
+  // Providers quote a regular taxi ride starting now, so the quote is only
+  // trusted for regular taxis when the leg actually starts around now.
+  const useQuotedFare =
+    trip.product === "regular" &&
+    !!ride.taxiFareKrw &&
+    Math.abs(trip.startTime.getTime() - Date.now()) <=
+      QUOTED_FARE_FRESH_MIN * 60000;
+  const taxiFare = useQuotedFare ? ride.taxiFareKrw! : estimate.fareKrw;
+  const tollFare = ride.tollFareKrw || 0;
+
+  return {
+    durationMin: Math.ceil(ride.durationSec / 60) + pickupWait.medianMin,
+    taxiFare,
+    tollFare,
+    costKrw: (taxiFare + tollFare + callFeeKrw) * trip.vehicles,
+    details: {
+      distance: ride.distanceM,
+      duration: ride.durationSec,
+      product: trip.product,
+      taxiFare,
+      tollFare,
+      callFee: callFeeKrw,
+      vehicles: trip.vehicles,
+      pickupWaitMin: pickupWait.medianMin,
+      pickupWaitP90Min: pickupWait.p90Min,
+      fareSource: useQuotedFare ? "kakao" : "estimated",
+      tariffRegion: estimate.region,
+      nightSurchargeRate: estimate.nightSurchargeRate,
+      suburbSurcharge: estimate.suburb,
+    },
+    // Without the provider's polyline, a straight line still shows the leg.
+    path: ride.path ?? [
+      geoPoint(trip.from.lng, trip.from.lat),
+      geoPoint(trip.to.lng, trip.to.lat),
+    ],
+  };
+}
+
+function buildTaxiLeg(from: string, to: string, taxi: TaxiQuote): RouteLeg {
+  return {
+    type: "taxi",
+    from,
+    to,
+    durationMin: taxi.durationMin,
+    costKrw: taxi.costKrw,
+    details: taxi.details,
+    path: taxi.path,
+  };
+}
+
+export function screenStationsByEta(
+  stations: Station[],
+  etaSeconds: Array<number | null>,
+  window: [number, number]
+): Station[] {
+  const screened: Station[] = [];
+
+  for (let i = 0; i < stations.length && i < etaSeconds.length; i++) {
+    const eta = etaSeconds[i];
+    if (eta) {
+      const durationMin = eta / 60;
+      if (durationMin >= window[0] && durationMin <= window[1]) {
+        screened.push(stations[i]);
+      }
+    }
+  }
+
+  return screened;
+}
+
+function addArrivalTimes(
+  candidate: RouteCandidate,
+  departureTime: string
+): void {
+  candidate.departureTime = departureTime;
+  let currentTime = new Date(departureTime);
+
+  for (const leg of candidate.legs) {
+    currentTime = new Date(currentTime.getTime() + leg.durationMin * 60000);
+    leg.arrivalTime = currentTime.toISOString();
+  }
+
+  candidate.arrivalTime = candidate.legs[candidate.legs.length - 1].arrivalTime;
+}
+
+// Realtime alignment may already have moved leaveBy earlier to catch a live
+// vehicle.
+function addLeaveByTimes(candidate: RouteCandidate, arriveBy: string): void {
+  candidate.leaveBy ??= new Date(
+    new Date(arriveBy).getTime() - candidate.totalTimeMin * 60000
+  ).toISOString();
+  addArrivalTimes(candidate, candidate.leaveBy);
+}
+
+function minutesBetween(fromIso: string, toIso: string): number {
+  const diffMs = new Date(toIso).getTime() - new Date(fromIso).getTime();
+  return Math.max(0, Math.floor(diffMs / 60000));
+}
+
+function minutesAfter(start: Date, min: number): Date {
+  return new Date(start.getTime() + min * 60000);
+}
+
+// Arrive-by candidates are found from the earliest departure, then searched
+// again from their own leaveBy until the trip time settles, so schedules,
+// traffic and fares are those of the hour the route is ridden. Routes that
+// no longer run at that hour are dropped; routes the search deadline cut off
+// keep their first timing.
+async function retimeAtLeaveBy(
+  candidates: RouteCandidate[],
+  searches: Map<string, CandidateSearch>,
+  arriveBy: string,
+  deadlineAt: number
+): Promise<RouteCandidate[]> {
+  const deadlineMs = new Date(arriveBy).getTime();
+  const { results } = await mapWithConcurrency(
+    candidates,
+    STATION_EVAL_CONCURRENCY,
+    async (
+      candidate,
+      signal
+    ): Promise<[RouteCandidate, RouteCandidate | null]> => {
+      const search = searches.get(candidate.id);
+      let current: RouteCandidate = candidate;
+      for (let round = 0; search && round < ARRIVE_BY_RETIME_ROUNDS; round++) {
+        const leaveBy = new Date(deadlineMs - current.totalTimeMin * 60000);
+        const found = (await search(leaveBy, signal)).find(
+          (c) => c.id === candidate.id
+        );
+        if (!found) return [candidate, null];
+        const settled =
+          Math.abs(found.totalTimeMin - current.totalTimeMin) <=
+          ARRIVE_BY_SETTLED_MIN;
+        current = found;
+        if (settled) break;
+      }
+      return [candidate, current];
+    },
+    deadlineAt
+  );
+
+  const retimed = new Map(results);
+  return candidates.flatMap((candidate) => {
+    if (!retimed.has(candidate)) return [candidate];
+    const current = retimed.get(candidate);
+    return current ? [current] : [];
+  });
+}
+
+export async function findOptimalRoute(
+  req: RouteRequest
+): Promise<RouteResponse> {
+  const {
+    origin,
+    destination,
+    maxTimeMin: requestMaxTimeMin,
+    maxWalkMin,
+    requireTaxi = false,
+    taxiMaxSegments = 1,
+    taxiProduct = "regular",
+    departureTime: requestDepartureTime,
+    arriveBy,
+    scoring: requestScoring,
+    accessibility,
+    transitSource,
+    debug = false,
+  } = req;
+
+  const scoring: ScoringModel = { ...DEFAULT_SCORING, ...requestScoring };
+  const walking = walkingProfile(accessibility);
+  if (walking.stepFreeOnly) await loadStepFreeStations();
+  const party = partyOf(req);
+  const taxiBooking: TaxiBooking = {
+    product: taxiProduct,
+    vehicles: taxisNeeded(party, TAXI_PRODUCTS[taxiProduct].capacity),
+  };
+
+  const departureTime = requestDepartureTime || new Date().toISOString();
+  const departureAt = new Date(departureTime);
+  // An arrive-by trip may take all the time between the earliest departure
+  // and the deadline; the request's maxTimeMin does not apply. Validation
+  // requires it otherwise.
+  const maxTimeMin = arriveBy
+    ? minutesBetween(departureTime, arriveBy)
+    : requestMaxTimeMin ?? DEFAULT_MAX_TIME_MIN;
+  const allCandidates: RouteCandidate[] = [];
+  const searches = new Map<string, CandidateSearch>();
+  let bestCost = Infinity;
+  const cache = createApiCache();
+  const providers = createProviders(cache, transitSource);
+  const searchDeadlineAt = Date.now() + SEARCH_DEADLINE_MS;
+
+  const debugInfo: RouteDebugInfo = {
+    tmapCalled: false,
+    tmapSuccess: false,
+    tmapItineraryCount: 0,
+    stationsNearOrigin: 0,
+    stationsNearDest: 0,
+    taxiTransitAttempts: 0,
+    transitTaxiAttempts: 0,
+    taxiTransitTaxiAttempts: 0,
+    taxiTransitGenerated: 0,
+    transitTaxiGenerated: 0,
+    taxiTransitTaxiGenerated: 0,
+    poiRadius: 0,
+    tmapKeySet: isTmapConfigured,
+    transitProvider: providers.transit.name,
+    searchDeadlineHit: false,
+    cache: cache.stats,
+  };
+
+  const distanceM = calculateDistance(
+    origin.lat,
+    origin.lng,
+    destination.lat,
+    destination.lng
+  );
+
+  if (distanceM < 700) {
+    const walkMin = Math.ceil(distanceM / walking.walkSpeedMPerMin);
+    const isFeasible = walkMin <= maxWalkMin && walkMin <= maxTimeMin;
+
+    allCandidates.push({
+      id: "walk-only",
+      type: "walk-only",
+      totalTimeMin: walkMin,
+      totalCostKrw: 0,
+      walkTimeMin: walkMin,
+      hasTaxi: false,
+      legs: [
+        {
+          type: "walk",
+          from: origin.name,
+          to: destination.name,
+          durationMin: walkMin,
+          costKrw: 0,
+          details: { distance: distanceM },
+          path: [
+            geoPoint(origin.lng, origin.lat),
+            geoPoint(destination.lng, destination.lat),
+          ],
+        },
+      ],
+      slackMin: maxTimeMin - walkMin,
+      isFeasible,
+    });
+
+    return buildResponse(
+      allCandidates,
+      maxTimeMin,
+      maxWalkMin,
+      requireTaxi,
+      departureTime,
+      arriveBy,
+      scoring,
+      partySize(party),
+      debug ? debugInfo : undefined
+    );
+  }
+
+  const transitOnlyCandidates = (
+    itineraries: TransitItinerary[],
+    startAt: Date
+  ): RouteCandidate[] =>
+    itineraries.slice(0, 5).map((itinerary, i) => {
+      const transit = summarizeItinerary(itinerary, startAt, walking, party);
+      const totalTimeMin = transit.timeMin;
+      const totalCostKrw = transit.costKrw;
+
+      const walkTimeMin = estimateWalkTimeMin(
+        transit.totalWalkM,
+        transit.subwayCount,
+        transit.busCount,
+        walking
+      );
+      const isFeasible =
+        totalTimeMin <= maxTimeMin &&
+        walkTimeMin <= maxWalkMin &&
+        !transit.afterLastService;
+
+      return {
+        id: `transit-${itinerary.pathType || i}`,
+        type: "transit-only",
+        totalTimeMin,
+        totalCostKrw,
+        walkTimeMin,
+        hasTaxi: false,
+        legs: [
+          {
+            type: "transit",
+            from: origin.name,
+            to: destination.name,
+            durationMin: totalTimeMin,
+            costKrw: totalCostKrw,
+            details: {
+              totalWalkM: transit.totalWalkM,
+              busCount: transit.busCount,
+              subwayCount: transit.subwayCount,
+              fareDiscountKrw: transit.fareDiscountKrw,
+              pathType: itinerary.pathType,
+              steps: transit.steps,
+            },
+          },
+        ],
+        slackMin: maxTimeMin - totalTimeMin,
+        isFeasible,
+        ...(transit.afterLastService && { afterLastService: true }),
+      };
+    });
+
+  const searchTransitOnly: CandidateSearch = async (startAt, signal) =>
+    transitOnlyCandidates(
+      await providers.transit.searchRoutes(
+        origin,
+        destination,
+        startAt,
+        signal
+      ),
+      startAt
+    );
+
+  debugInfo.tmapCalled = true;
+  const itineraries = await providers.transit.searchRoutes(
+    origin,
+    destination,
+    departureAt
+  );
+
+  if (itineraries.length > 0) {
+    debugInfo.tmapSuccess = true;
+    debugInfo.tmapItineraryCount = itineraries.length;
+    for (const candidate of transitOnlyCandidates(itineraries, departureAt)) {
+      allCandidates.push(candidate);
+      searches.set(candidate.id, searchTransitOnly);
+
+      if (candidate.isFeasible) {
+        bestCost = Math.min(bestCost, candidate.totalCostKrw);
+      }
+    }
+  }
+
+  const searchTaxiOnly: CandidateSearch = async (startAt, signal) => {
+    const ride = await providers.driving.route(
+      origin,
+      destination,
+      startAt,
+      signal
+    );
+    if (!ride) return [];
+
+    const taxi = quoteTaxiLeg(ride, {
+      from: origin,
+      to: destination,
+      startTime: startAt,
+      ...taxiBooking,
+    });
+    const durationMin = taxi.durationMin;
+
+    return [
+      {
+        id: "taxi-only",
+        type: "taxi-only",
+        totalTimeMin: durationMin,
+        totalCostKrw: taxi.costKrw,
+        walkTimeMin: 0,
+        hasTaxi: true,
+        legs: [buildTaxiLeg(origin.name, destination.name, taxi)],
+        slackMin: maxTimeMin - durationMin,
+        isFeasible: durationMin <= maxTimeMin,
+      },
+    ];
+  };
+
+  for (const candidate of await searchTaxiOnly(departureAt)) {
+    allCandidates.push(candidate);
+    searches.set(candidate.id, searchTaxiOnly);
+
+    if (candidate.isFeasible) {
+      bestCost = Math.min(bestCost, candidate.totalCostKrw);
+    }
+  }
+
+  if (taxiMaxSegments >= 1) {
+    const poiRadius = computePoiRadius(maxWalkMin, walking);
+    debugInfo.poiRadius = poiRadius;
+
+    // Taxis drop off and pick up at street level, so step-free riders can
+    // only switch at stations with an elevator down to the platform.
+    const usableStations = (stations: Station[]) =>
+      walking.stepFreeOnly
+        ? stations.filter((station) => hasStepFreeAccess(station.name))
+        : stations;
+    const [stationsNearO, stationsNearD] = (
+      await Promise.all([
+        providers.poi.nearbyStations(origin, poiRadius),
+        providers.poi.nearbyStations(destination, poiRadius),
+      ])
+    ).map(usableStations);
+
+    debugInfo.stationsNearOrigin = stationsNearO.length;
+    debugInfo.stationsNearDest = stationsNearD.length;
+
+    const taxiRidesFromOrigin = new Map<string, DrivingRoute>();
+    const taxiRidesToDest = new Map<string, DrivingRoute>();
+    // Sandwich routes reuse the rides already fetched for the one-taxi
+    // routes that start at the same time.
+    const drivingRoutes = new Map<string, Promise<DrivingRoute | null>>();
+    const driveAt = (
+      from: GeoPoint,
+      to: GeoPoint,
+      startAt: Date,
+      signal?: AbortSignal
+    ) => {
+      const key = `${from.lng},${from.lat}>${to.lng},${
+        to.lat
+      }@${startAt.getTime()}`;
+      if (!drivingRoutes.has(key)) {
+        drivingRoutes.set(
+          key,
+          providers.driving.route(from, to, startAt, signal)
+        );
+      }
+      return drivingRoutes.get(key)!;
+    };
+
+    const evaluateTaxiTransit = async (
+      station: Station,
+      startAt: Date,
+      signal?: AbortSignal
+    ): Promise<RouteCandidate[]> => {
+      debugInfo.taxiTransitAttempts++;
+      const candidates: RouteCandidate[] = [];
+
+      const taxiRide = await driveAt(origin, station, startAt, signal);
+
+      if (!taxiRide) return candidates;
+      taxiRidesFromOrigin.set(station.id, taxiRide);
+      const taxi = quoteTaxiLeg(taxiRide, {
+        from: origin,
+        to: station,
+        startTime: startAt,
+        ...taxiBooking,
+      });
+      const boardAt = minutesAfter(startAt, taxi.durationMin);
+
+      const transitPaths = await providers.transit.searchRoutes(
+        station,
+        destination,
+        boardAt,
+        signal
+      );
+
+      for (const itinerary of transitPaths.slice(0, 3)) {
+        const transit = summarizeItinerary(itinerary, boardAt, walking, party);
+        const walkTimeMin =
+          estimateWalkTimeMin(
+            transit.totalWalkM,
+            transit.subwayCount,
+            transit.busCount,
+            walking
+          ) + DROPOFF_TO_PLATFORM_BUFFER_MIN;
+        const totalTime = taxi.durationMin + transit.timeMin;
+        const totalCost = taxi.costKrw + transit.costKrw;
+
+        if (
+          transit.afterLastService ||
+          (totalTime <= maxTimeMin && walkTimeMin <= maxWalkMin)
+        ) {
+          candidates.push({
+            id: `taxi-transit-${station.id}-${itinerary.pathType}`,
+            type: "taxi-transit",
+            totalTimeMin: totalTime,
+            totalCostKrw: totalCost,
+            walkTimeMin,
+            hasTaxi: true,
+            legs: [
+              buildTaxiLeg(origin.name, station.name, taxi),
+              buildTransitLeg(station.name, destination.name, transit),
+            ],
+            slackMin: maxTimeMin - totalTime,
+            isFeasible: !transit.afterLastService,
+            ...(transit.afterLastService && { afterLastService: true }),
+          });
+        }
+      }
+
+      return candidates;
+    };
+
+    const evaluateTransitTaxi = async (
+      station: Station,
+      startAt: Date,
+      signal?: AbortSignal
+    ): Promise<RouteCandidate[]> => {
+      debugInfo.transitTaxiAttempts++;
+      const candidates: RouteCandidate[] = [];
+
+      const [transitPaths, taxiRide] = await Promise.all([
+        providers.transit.searchRoutes(origin, station, startAt, signal),
+        driveAt(station, destination, startAt, signal),
+      ]);
+
+      if (!taxiRide) return candidates;
+      taxiRidesToDest.set(station.id, taxiRide);
+
+      for (const itinerary of transitPaths.slice(0, 3)) {
+        const transit = summarizeItinerary(itinerary, startAt, walking, party);
+        const taxi = quoteTaxiLeg(taxiRide, {
+          from: station,
+          to: destination,
+          startTime: minutesAfter(startAt, transit.timeMin),
+          ...taxiBooking,
+        });
+        const walkTimeMin =
+          estimateWalkTimeMin(
+            transit.totalWalkM,
+            transit.subwayCount,
+            transit.busCount,
+            walking
+          ) + DROPOFF_TO_PLATFORM_BUFFER_MIN;
+        const totalTime = transit.timeMin + taxi.durationMin;
+        const totalCost = transit.costKrw + taxi.costKrw;
+
+        if (
+          transit.afterLastService ||
+          (totalTime <= maxTimeMin && walkTimeMin <= maxWalkMin)
+        ) {
+          candidates.push({
+            id: `transit-taxi-${station.id}-${itinerary.pathType}`,
+            type: "transit-taxi",
+            totalTimeMin: totalTime,
+            totalCostKrw: totalCost,
+            walkTimeMin,
+            hasTaxi: true,
+            legs: [
+              buildTransitLeg(origin.name, station.name, transit),
+              buildTaxiLeg(station.name, destination.name, taxi),
+            ],
+            slackMin: maxTimeMin - totalTime,
+            isFeasible: !transit.afterLastService,
+            ...(transit.afterLastService && { afterLastService: true }),
+          });
+        }
+      }
+
+      return candidates;
+    };
+
+    const evaluateTaxiTransitTaxi = async (
+      [stationO, stationD]: [Station, Station],
+      startAt: Date,
+      signal?: AbortSignal
+    ): Promise<RouteCandidate[]> => {
+      debugInfo.taxiTransitTaxiAttempts++;
+      const candidates: RouteCandidate[] = [];
+      const [taxiInRide, taxiOutRide] = await Promise.all([
+        driveAt(origin, stationO, startAt, signal),
+        driveAt(stationD, destination, startAt, signal),
+      ]);
+      if (!taxiInRide || !taxiOutRide) return candidates;
+
+      const taxiIn = quoteTaxiLeg(taxiInRide, {
+        from: origin,
+        to: stationO,
+        startTime: startAt,
+        ...taxiBooking,
+      });
+      const boardAt = minutesAfter(startAt, taxiIn.durationMin);
+
+      const transitPaths = await providers.transit.searchRoutes(
+        stationO,
+        stationD,
+        boardAt,
+        signal
+      );
+
+      for (const itinerary of transitPaths.slice(0, 3)) {
+        const transit = summarizeItinerary(itinerary, boardAt, walking, party);
+        const taxiOut = quoteTaxiLeg(taxiOutRide, {
+          from: stationD,
+          to: destination,
+          startTime: minutesAfter(
+            startAt,
+            taxiIn.durationMin + transit.timeMin
+          ),
+          ...taxiBooking,
+        });
+        const walkTimeMin =
+          estimateWalkTimeMin(
+            transit.totalWalkM,
+            transit.subwayCount,
+            transit.busCount,
+            walking
+          ) +
+          DROPOFF_TO_PLATFORM_BUFFER_MIN * 2;
+        const totalTime =
+          taxiIn.durationMin + transit.timeMin + taxiOut.durationMin;
+        const totalCost = taxiIn.costKrw + transit.costKrw + taxiOut.costKrw;
+
+        if (
+          transit.afterLastService ||
+          (totalTime <= maxTimeMin && walkTimeMin <= maxWalkMin)
+        ) {
+          candidates.push({
+            id: `taxi-transit-taxi-${stationO.id}-${stationD.id}-${itinerary.pathType}`,
+            type: "taxi-transit-taxi",
+            totalTimeMin: totalTime,
+            totalCostKrw: totalCost,
+            walkTimeMin,
+            hasTaxi: true,
+            legs: [
+              buildTaxiLeg(origin.name, stationO.name, taxiIn),
+              buildTransitLeg(stationO.name, stationD.name, transit),
+              buildTaxiLeg(stationD.name, destination.name, taxiOut),
+            ],
+            slackMin: maxTimeMin - totalTime,
+            isFeasible: !transit.afterLastService,
+            ...(transit.afterLastService && { afterLastService: true }),
+          });
+        }
+      }
+
+      return candidates;
+    };
+
+    const screenOriginSide = async (): Promise<Station[]> => {
+      if (stationsNearO.length === 0) return [];
+
+      const etas = await providers.driving.etasFrom(origin, stationsNearO);
+
+      let screenedStationsO = stationsNearO;
+      if (etas) {
+        screenedStationsO = screenStationsByEta(
+          stationsNearO,
+          etas,
+          TAXI_ROI_WINDOW_PRIMARY
+        );
+
+        if (screenedStationsO.length < 5) {
+          screenedStationsO = screenStationsByEta(
+            stationsNearO,
+            etas,
+            TAXI_ROI_WINDOW_EXPAND
+          );
+        }
+      }
+
+      return screenedStationsO.slice(0, MAX_STATION_CANDIDATES);
+    };
+
+    const screenDestinationSide = async (): Promise<Station[]> => {
+      if (stationsNearD.length === 0) return [];
+
+      const etas = await providers.driving.etasTo(stationsNearD, destination);
+
+      let screenedStationsD = stationsNearD;
+      if (etas) {
+        screenedStationsD = screenStationsByEta(
+          stationsNearD,
+          etas,
+          TAXI_ROI_WINDOW_PRIMARY
+        );
+
+        if (screenedStationsD.length < 5) {
+          screenedStationsD = screenStationsByEta(
+            stationsNearD,
+            etas,
+            TAXI_ROI_WINDOW_EXPAND
+          );
+        }
+      }
+
+      return screenedStationsD.slice(0, MAX_STATION_CANDIDATES);
+    };
+
+    const evaluateStations = async <T>(
+      items: T[],
+      evaluate: (
+        item: T,
+        startAt: Date,
+        signal?: AbortSignal
+      ) => Promise<RouteCandidate[]>
+    ): Promise<RouteCandidate[]> => {
+      const { results, timedOut } = await mapWithConcurrency(
+        items,
+        STATION_EVAL_CONCURRENCY,
+        async (item, signal) => {
+          const search: CandidateSearch = (startAt, searchSignal) =>
+            evaluate(item, startAt, searchSignal);
+          const candidates = await search(departureAt, signal);
+          for (const candidate of candidates) {
+            searches.set(candidate.id, search);
+          }
+          return candidates;
+        },
+        searchDeadlineAt
+      );
+      if (timedOut) debugInfo.searchDeadlineHit = true;
+      return results.flat();
+    };
+
+    const [topStationsO, topStationsD] = await Promise.all([
+      screenOriginSide(),
+      screenDestinationSide(),
+    ]);
+
+    const [taxiTransitResults, transitTaxiResults] = await Promise.all([
+      evaluateStations(topStationsO, evaluateTaxiTransit),
+      evaluateStations(topStationsD, evaluateTransitTaxi),
+    ]);
+
+    for (const candidate of taxiTransitResults) {
+      allCandidates.push(candidate);
+      debugInfo.taxiTransitGenerated++;
+      bestCost = Math.min(bestCost, candidate.totalCostKrw);
+    }
+
+    for (const candidate of transitTaxiResults) {
+      allCandidates.push(candidate);
+      debugInfo.transitTaxiGenerated++;
+      bestCost = Math.min(bestCost, candidate.totalCostKrw);
+    }
+
+    if (taxiMaxSegments >= 2) {
+      const shortestByTaxi = (
+        stations: Station[],
+        rides: Map<string, DrivingRoute>
+      ) =>
+        stations
+          .filter((s) => rides.has(s.id))
+          .sort(
+            (a, b) => rides.get(a.id)!.distanceM - rides.get(b.id)!.distanceM
+          )
+          .slice(0, MAX_SANDWICH_STATIONS_PER_SIDE);
+
+      const sandwichPairs: Array<[Station, Station]> = [];
+      for (const stationO of shortestByTaxi(
+        topStationsO,
+        taxiRidesFromOrigin
+      )) {
+        for (const stationD of shortestByTaxi(topStationsD, taxiRidesToDest)) {
+          if (stationO.id === stationD.id) continue;
+          sandwichPairs.push([stationO, stationD]);
+        }
+      }
+
+      const sandwichResults = await evaluateStations(
+        sandwichPairs,
+        evaluateTaxiTransitTaxi
+      );
+
+      for (const candidate of sandwichResults) {
+        allCandidates.push(candidate);
+        debugInfo.taxiTransitTaxiGenerated++;
+        bestCost = Math.min(bestCost, candidate.totalCostKrw);
+      }
+    }
+  }
+
+  if (arriveBy) {
+    // Only the routes worth showing, and the baselines they are judged
+    // against, are searched again.
+    const preliminary = buildResponse(
+      allCandidates,
+      maxTimeMin,
+      maxWalkMin,
+      requireTaxi,
+      departureTime,
+      arriveBy,
+      scoring,
+      partySize(party)
+    );
+    const finalists = allCandidates.filter(
+      (c) =>
+        c.type === "transit-only" ||
+        c.type === "taxi-only" ||
+        preliminary.routes.includes(c)
+    );
+    const retimed = await retimeAtLeaveBy(
+      finalists,
+      searches,
+      arriveBy,
+      searchDeadlineAt
+    );
+    allCandidates.splice(0, allCandidates.length, ...retimed);
+  }
+
+  if (providers.arrivals) {
+    if (arriveBy) {
+      await alignToRealtimeArrivals(
+        allCandidates,
+        providers.arrivals,
+        new Date(arriveBy),
+        departureAt
+      );
+    } else {
+      await applyRealtimeArrivals(
+        allCandidates,
+        providers.arrivals,
+        departureAt,
+        maxTimeMin
+      );
+    }
+  }
+
+  return buildResponse(
+    allCandidates,
+    maxTimeMin,
+    maxWalkMin,
+    requireTaxi,
+    departureTime,
+    arriveBy,
+    scoring,
+    partySize(party),
+    debug ? debugInfo : undefined
+  );
+}
+
+function isMixedCandidate(candidate: RouteCandidate): boolean {
+  return (
+    candidate.type === "taxi-transit" ||
+    candidate.type === "transit-taxi" ||
+    candidate.type === "taxi-transit-taxi"
+  );
+}
+
+function suppressMixedTaxiCandidates(
+  feasibleCandidates: RouteCandidate[],
+  allCandidates: RouteCandidate[]
+): { kept: RouteCandidate[]; summary: TaxiSuppressionSummary } {
+  const summary: TaxiSuppressionSummary = {
+    baseFareTaxi: 0,
+    lowSavingsVsTaxi: 0,
+    lowTimeSavingsVsTransit: 0,
+    totalSuppressed: 0,
+  };
+
+  const taxiOnly = allCandidates.find((c) => c.type === "taxi-only");
+  const fastestTransitMin = feasibleCandidates
+    .filter((c) => c.type === "transit-only")
+    .reduce((min, c) => Math.min(min, c.totalTimeMin), Infinity);
+
+  const kept = feasibleCandidates.filter((candidate) => {
+    if (!isMixedCandidate(candidate)) return true;
+
+    const hasBaseFareTaxi = candidate.legs.some((leg) => {
+      if (leg.type !== "taxi") return false;
+      const details = leg.details as TaxiDetails | undefined;
+      const baseFare =
+        (surchargedBaseFare(
+          details?.tariffRegion ?? "seoul",
+          details?.nightSurchargeRate ?? 0,
+          details?.product
+        ) +
+          (details?.callFee ?? 0)) *
+        (details?.vehicles ?? 1);
+      return leg.costKrw <= baseFare + SUPPRESS_BASE_FARE_MARGIN_KRW;
+    });
+    if (hasBaseFareTaxi) {
+      summary.baseFareTaxi++;
+      return false;
+    }
+
+    if (
+      taxiOnly &&
+      taxiOnly.totalCostKrw - candidate.totalCostKrw <
+        SUPPRESS_MIN_SAVINGS_VS_TAXI_KRW
+    ) {
+      summary.lowSavingsVsTaxi++;
+      return false;
+    }
+
+    if (
+      fastestTransitMin - candidate.totalTimeMin <
+      SUPPRESS_MIN_TIME_SAVINGS_VS_TRANSIT_MIN
+    ) {
+      summary.lowTimeSavingsVsTransit++;
+      return false;
+    }
+
+    return true;
+  });
+
+  summary.totalSuppressed = feasibleCandidates.length - kept.length;
+  return { kept, summary };
+}
+
+function countTransfers(candidate: RouteCandidate): number {
+  let boardings = 0;
+  for (const leg of candidate.legs) {
+    if (leg.type === "taxi") boardings++;
+    if (leg.type === "transit") {
+      const details = leg.details as TransitDetails | undefined;
+      boardings += (details?.busCount ?? 0) + (details?.subwayCount ?? 0);
+    }
+  }
+  return Math.max(0, boardings - 1);
+}
+
+function scoreCandidate(
+  candidate: RouteCandidate,
+  scoring: ScoringModel
+): ScoreBreakdown {
+  const transfers = countTransfers(candidate);
+  // Time and walking are valued per person, so the fare is too.
+  const fareKrw = candidate.perPersonCostKrw ?? candidate.totalCostKrw;
+  const timeCostKrw = Math.round(
+    candidate.totalTimeMin * scoring.valueOfTimeKrwPerMin
+  );
+  const walkPenaltyKrw = Math.round(
+    candidate.walkTimeMin * scoring.walkPenaltyKrwPerMin
+  );
+  const transferPenaltyKrw = Math.round(transfers * scoring.transferPenaltyKrw);
+
+  return {
+    generalizedCostKrw:
+      fareKrw + timeCostKrw + walkPenaltyKrw + transferPenaltyKrw,
+    fareKrw,
+    timeCostKrw,
+    walkPenaltyKrw,
+    transferPenaltyKrw,
+    transfers,
+  };
+}
+
+function buildResponse(
+  allCandidates: RouteCandidate[],
+  maxTimeMin: number,
+  maxWalkMin: number,
+  requireTaxi: boolean,
+  departureTime: string,
+  arriveBy: string | undefined,
+  scoring: ScoringModel,
+  passengers: number,
+  debugInfo?: RouteDebugInfo
+): RouteResponse {
+  const afterLastServiceCount = allCandidates.filter(
+    (c) => c.afterLastService
+  ).length;
+  for (const candidate of allCandidates) {
+    if (arriveBy) {
+      addLeaveByTimes(candidate, arriveBy);
+    } else {
+      addArrivalTimes(candidate, departureTime);
+    }
+    if (passengers > 1) {
+      candidate.perPersonCostKrw = Math.round(
+        candidate.totalCostKrw / passengers
+      );
+    }
+    candidate.score = scoreCandidate(candidate, scoring);
+  }
+  const constraints = {
+    maxTimeMin,
+    maxWalkMin,
+    ...(arriveBy && { arriveBy }),
+    ...(passengers > 1 && { passengers }),
+  };
+
+  const taxiOnly = allCandidates.find((c) => c.type === "taxi-only");
+  const { kept, summary: taxiSuppressed } = suppressMixedTaxiCandidates(
+    allCandidates.filter((c) => c.isFeasible),
+    allCandidates
+  );
+  let feasibleCandidates = kept;
+
+  if (requireTaxi) {
+    feasibleCandidates = feasibleCandidates.filter((c) => c.hasTaxi);
+  }
+
+  const sortedFeasible = feasibleCandidates.sort((a, b) => {
+    const scoreDiff = a.score!.generalizedCostKrw - b.score!.generalizedCostKrw;
+    if (scoreDiff !== 0) return scoreDiff;
+    if (a.totalCostKrw !== b.totalCostKrw) {
+      return a.totalCostKrw - b.totalCostKrw;
+    }
+    return a.totalTimeMin - b.totalTimeMin;
+  });
+
+  if (sortedFeasible.length > 0) {
+    return {
+      success: true,
+      routes: sortedFeasible.slice(0, 10),
+      count: sortedFeasible.length,
+      noFeasibleRoute: false,
+      minPossibleTimeMin: null,
+      minPossibleWalkMin: null,
+      constraints,
+      taxiOnly,
+      taxiSuppressed,
+      afterLastServiceCount,
+      ...(debugInfo && { debug: debugInfo }),
+    };
+  }
+
+  const allSorted = allCandidates
+    .filter((c) => !isMixedCandidate(c) || kept.includes(c))
+    .sort((a, b) => a.totalTimeMin - b.totalTimeMin);
+  const minTimeCandidate = allSorted[0];
+
+  return {
+    success: true,
+    routes: allSorted.slice(0, 5),
+    count: allSorted.length,
+    noFeasibleRoute: true,
+    minPossibleTimeMin: minTimeCandidate?.totalTimeMin ?? null,
+    minPossibleWalkMin: minTimeCandidate?.walkTimeMin ?? null,
+    constraints,
+    taxiOnly,
+    taxiSuppressed,
+    afterLastServiceCount,
+    ...(debugInfo && { debug: debugInfo }),
+  };
+}
+
+const SEARCH_HISTORY_ROUTE_LIMIT = 3;
+const SEARCH_RATE_CAPACITY = 5;
+const SEARCH_RATE_REFILL_PER_SEC = 1 / 12;
+const IN_FLIGHT_RETRY_AFTER_SEC = 3;
+
+const searchLimiter = createTokenBucketLimiter({
+  capacity: SEARCH_RATE_CAPACITY,
+  refillPerSec: SEARCH_RATE_REFILL_PER_SEC,
+});
+const searchCoalescer = createRequestCoalescer<RouteResponse>();
+const activeSearchByCaller = new Map<string, string>();
+
+function searchKey(req: RouteRequest): string {
+  return buildCacheKey("search", {
+    originLat: req.origin.lat,
+    originLng: req.origin.lng,
+    destinationLat: req.destination.lat,
+    destinationLng: req.destination.lng,
+    maxTimeMin: req.maxTimeMin,
+    maxWalkMin: req.maxWalkMin,
+    requireTaxi: req.requireTaxi,
+    taxiMaxSegments: req.taxiMaxSegments,
+    departureTime: req.departureTime,
+    arriveBy: req.arriveBy,
+    valueOfTime: req.scoring?.valueOfTimeKrwPerMin,
+    walkPenalty: req.scoring?.walkPenaltyKrwPerMin,
+    transferPenalty: req.scoring?.transferPenaltyKrw,
+    transitSource: req.transitSource,
+    walkSpeed: req.accessibility?.walkSpeedMPerMin,
+    extraTransferMin: req.accessibility?.extraTransferMin,
+    stepFreeOnly: req.accessibility?.stepFreeOnly,
+    taxiProduct: req.taxiProduct,
+    passengers: req.passengers,
+    youth: req.fareCategories?.youth,
+    child: req.fareCategories?.child,
+    senior: req.fareCategories?.senior,
+    fareCategory: req.fareProfile?.category,
+    transitPass: req.fareProfile?.pass,
+    debug: req.debug,
+  });
+}
+
+// Returns the new row's id so callers can link to it.
+export async function recordSearch(
+  req: RouteRequest,
+  result: RouteResponse
+): Promise<string | null> {
+  if (!supabaseAdmin) return null;
+
+  const { data, error } = await supabaseAdmin
+    .from("searches")
+    .insert({
+      client_id: req.clientId ?? null,
+      origin_name: req.origin.name,
+      origin_lat: req.origin.lat,
+      origin_lng: req.origin.lng,
+      destination_name: req.destination.name,
+      destination_lat: req.destination.lat,
+      destination_lng: req.destination.lng,
+      max_time_min: req.maxTimeMin || result.constraints.maxTimeMin,
+      max_walk_min: req.maxWalkMin,
+      departure_time: req.departureTime ?? null,
+      arrive_by: req.arriveBy ?? null,
+      taxi_max_segments: req.taxiMaxSegments ?? 1,
+      result_routes: result.routes.slice(0, SEARCH_HISTORY_ROUTE_LIMIT),
+    })
+    .select("id")
+    .single();
+
+  if (error) {
+    console.error("Search history insert error:", error.message);
+    return null;
+  }
+  return data.id;
+}
+
+function errorResponse(
+  status: number,
+  code: RouteErrorCode,
+  message: string,
+  extra: Pick<RouteErrorResponse, "issues" | "retryAfterSec"> = {}
+): Response {
+  const body: RouteErrorResponse = {
+    success: false,
+    error: code,
+    message,
+    ...extra,
+  };
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: {
+      ...corsHeaders,
+      "Content-Type": "application/json",
+      ...(extra.retryAfterSec !== undefined && {
+        "Retry-After": String(extra.retryAfterSec),
+      }),
+    },
+  });
+}
+
+export async function handleRequest(
+  req: Request,
+  info?: Deno.ServeHandlerInfo
+): Promise<Response> {
+  if (req.method === "OPTIONS") {
+    return new Response(null, {
+      status: 200,
+      headers: corsHeaders,
+    });
+  }
+
+  let payload: unknown;
+  try {
+    payload = await req.json();
+  } catch {
+    return errorResponse(400, "INVALID_BODY", "Request body must be JSON");
+  }
+
+  try {
+    const validation = validateRouteRequest(payload);
+
+    if (!validation.ok) {
+      return errorResponse(400, validation.issues[0].code, "Invalid request", {
+        issues: validation.issues,
+      });
+    }
+
+    const body = validation.request;
+    // clientId only attributes the search in history; limits follow the
+    // caller's address.
+    const caller = callerKey(req, info);
+    const key = searchKey(body);
+    const activeKey = activeSearchByCaller.get(caller);
+
+    if (activeKey && activeKey !== key) {
+      return errorResponse(
+        409,
+        "IN_FLIGHT",
+        "Another search from this client is still running",
+        { retryAfterSec: IN_FLIGHT_RETRY_AFTER_SEC }
+      );
+    }
+
+    // Joining a search that is already running costs no upstream calls, so
+    // only new computations draw from the caller's bucket.
+    if (!searchCoalescer.isRunning(key)) {
+      const decision = searchLimiter.take(caller);
+      if (!decision.allowed) {
+        return errorResponse(429, "RATE_LIMITED", "Too many searches", {
+          retryAfterSec: decision.retryAfterSec,
+        });
+      }
+    }
+
+    if (!activeKey) activeSearchByCaller.set(caller, key);
+    let coalesced;
+    try {
+      coalesced = await searchCoalescer.run(key, () => findOptimalRoute(body));
+    } finally {
+      if (!activeKey) activeSearchByCaller.delete(caller);
+    }
+    const { value: result } = coalesced;
+
+    // Past the walk-only shortcut a taxi-only candidate is always attempted,
+    // so an empty result means both TMAP and Kakao failed.
+    if (result.count === 0 && result.routes.length === 0) {
+      return errorResponse(
+        502,
+        "UPSTREAM_UNAVAILABLE",
+        "Route providers did not respond"
+      );
+    }
+
+    // Callers that joined another client's search still get their own
+    // history entry.
+    await recordSearch(body, result);
+
+    return new Response(JSON.stringify(result), {
+      headers: {
+        ...corsHeaders,
+        "Content-Type": "application/json",
+      },
+    });
+  } catch (error) {
+    console.error("Function error:", error);
+    return errorResponse(
+      500,
+      "INTERNAL_ERROR",
+      error instanceof Error ? error.message : "Unknown error"
+    );
+  }
+}
@@ -0,0 +1,86 @@
+import { DrivingProvider, PoiProvider, TransitProvider } from "./types.ts";
+
+// Asks each provider in order and returns the first useful answer. Adapters
+// report failure as an empty result, so "useless" covers both outages and
+// areas a provider does not cover. Once `signal` aborts, the caller has given
+// up and no further provider is asked.
+async function firstUseful<P extends { name: string }, R>(
+  providers: P[],
+  call: (provider: P) => Promise<R>,
+  isUseful: (result: R) => boolean,
+  fallback: R,
+  signal?: AbortSignal
+): Promise<R> {
+  for (const [i, provider] of providers.entries()) {
+    const result = await call(provider);
+    if (isUseful(result)) return result;
+    if (signal?.aborted) break;
+    if (i < providers.length - 1) {
+      console.error(`${provider.name} returned nothing, failing over`);
+    }
+  }
+  return fallback;
+}
+
+function chainName(providers: Array<{ name: string }>): string {
+  return providers.map((p) => p.name).join(">");
+}
+
+export function transitWithFailover(
+  providers: TransitProvider[]
+): TransitProvider {
+  return {
+    name: chainName(providers),
+    searchRoutes: (from, to, departAt, signal) =>
+      firstUseful(
+        providers,
+        (p) => p.searchRoutes(from, to, departAt, signal),
+        (r) => r.length > 0,
+        [],
+        signal
+      ),
+  };
+}
+
+export function drivingWithFailover(
+  providers: DrivingProvider[]
+): DrivingProvider {
+  return {
+    name: chainName(providers),
+    route: (from, to, departAt, signal) =>
+      firstUseful(
+        providers,
+        (p) => p.route(from, to, departAt, signal),
+        (r) => !!r,
+        null,
+        signal
+      ),
+    etasFrom: (origin, destinations) =>
+      firstUseful(
+        providers,
+        (p) => p.etasFrom(origin, destinations),
+        (r) => !!r?.length,
+        null
+      ),
+    etasTo: (origins, destination) =>
+      firstUseful(
+        providers,
+        (p) => p.etasTo(origins, destination),
+        (r) => !!r?.length,
+        null
+      ),
+  };
+}
+
+export function poiWithFailover(providers: PoiProvider[]): PoiProvider {
+  return {
+    name: chainName(providers),
+    nearbyStations: (center, radiusM) =>
+      firstUseful(
+        providers,
+        (p) => p.nearbyStations(center, radiusM),
+        (r) => r.length > 0,
+        []
+      ),
+  };
+}
@@ -0,0 +1,300 @@
+import {
+  ApiCache,
+  buildCacheKey,
+  CACHE_TTL_SEC,
+} from "../../_shared/apiCache.ts";
+import { earliestArrival, Journey, StopWalk } from "../gtfs/csa.ts";
+import {
+  FeedBounds,
+  GtfsFeed,
+  GtfsMode,
+  isServiceActive,
+  loadGtfsFeed,
+  nearbyStops,
+  walkSeconds,
+} from "../gtfs/feed.ts";
+import { geoPoint } from "../../_shared/geo.ts";
+import { KST_OFFSET_MS, toKstMinuteStamp } from "../serviceHours.ts";
+import {
+  GeoPoint,
+  TransitItinerary,
+  TransitProvider,
+  TransitSegment,
+} from "./types.ts";
+
+// Base URL of an unzipped GTFS feed (stops.txt, stop_times.txt, ...). A
+// file:// URL works for local runs and tests.
+const GTFS_FEED_URL = Deno.env.get("GTFS_FEED_URL") || "";
+
+export const isGtfsConfigured = !!GTFS_FEED_URL;
+
+// Optional "minLng,minLat,maxLng,maxLat" box, e.g. 126.76,37.41,127.18,37.70
+// for Seoul. Stops outside it are not loaded.
+const GTFS_BBOX = Deno.env.get("GTFS_BBOX") || "";
+
+function feedBounds(): FeedBounds | undefined {
+  if (!GTFS_BBOX) return undefined;
+  const [minLng, minLat, maxLng, maxLat] = GTFS_BBOX.split(",").map(Number);
+  if (![minLng, minLat, maxLng, maxLat].every(Number.isFinite)) {
+    console.error(`GTFS_BBOX is not a "minLng,minLat,maxLng,maxLat" box`);
+    return undefined;
+  }
+  return { minLat, minLng, maxLat, maxLng };
+}
+
+const ACCESS_RADIUS_M = 800;
+const MAX_ITINERARIES = 3;
+const MAX_TRAVEL_SEC = 3 * 60 * 60;
+// Seoul metropolitan integrated fare, card rates.
+const BASE_FARE_KRW: Record<GtfsMode, number> = { SUBWAY: 1550, BUS: 1500 };
+const FARE_BASE_DISTANCE_KM = 10;
+const FARE_LONG_DISTANCE_KM = 50;
+
+let feedLoad: Promise<GtfsFeed | null> | null = null;
+
+// The feed is parsed on the first cache miss and kept for the isolate's
+// lifetime; a failed load is retried on the next request.
+function getFeed(): Promise<GtfsFeed | null> {
+  if (!feedLoad) {
+    const started = Date.now();
+    feedLoad = loadGtfsFeed(GTFS_FEED_URL, feedBounds())
+      .then((feed) => {
+        console.log(
+          `GTFS feed loaded: ${feed.stops.length} stops, ` +
+            `${feed.connections.count} connections in ${Date.now() - started}ms`
+        );
+        return feed;
+      })
+      .catch((error) => {
+        console.error("GTFS feed load error:", error);
+        feedLoad = null;
+        return null;
+      });
+  }
+  return feedLoad;
+}
+
+function serviceDay(time: Date): { date: string; weekday: number } {
+  const kst = new Date(time.getTime() + KST_OFFSET_MS);
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return {
+    date: `${kst.getUTCFullYear()}${pad(kst.getUTCMonth() + 1)}${pad(
+      kst.getUTCDate()
+    )}`,
+    weekday: kst.getUTCDay(),
+  };
+}
+
+function activeTrips(feed: GtfsFeed, time: Date): Uint8Array {
+  const { date, weekday } = serviceDay(time);
+  const cache = new Map<string, boolean>();
+  const active = new Uint8Array(feed.trips.length);
+  feed.trips.forEach((trip, i) => {
+    let running = cache.get(trip.serviceId);
+    if (running === undefined) {
+      running = isServiceActive(feed, trip.serviceId, date, weekday);
+      cache.set(trip.serviceId, running);
+    }
+    active[i] = running ? 1 : 0;
+  });
+  return active;
+}
+
+function walksToStops(feed: GtfsFeed, point: GeoPoint): StopWalk[] {
+  return nearbyStops(feed, point, ACCESS_RADIUS_M).map(({ stop, distM }) => ({
+    stop,
+    sec: walkSeconds(distM),
+    distM,
+  }));
+}
+
+function estimateFare(rides: Array<{ mode: GtfsMode; distM: number }>) {
+  const baseFare = Math.max(...rides.map((ride) => BASE_FARE_KRW[ride.mode]));
+  const km = rides.reduce((sum, ride) => sum + ride.distM, 0) / 1000;
+  const mid = Math.min(km, FARE_LONG_DISTANCE_KM) - FARE_BASE_DISTANCE_KM;
+  const far = km - FARE_LONG_DISTANCE_KM;
+  return (
+    baseFare +
+    (mid > 0 ? Math.ceil(mid / 5) * 100 : 0) +
+    (far > 0 ? Math.ceil(far / 8) * 100 : 0)
+  );
+}
+
+function toItinerary(
+  feed: GtfsFeed,
+  journey: Journey,
+  from: GeoPoint,
+  to: GeoPoint,
+  departSec: number
+): TransitItinerary {
+  const { connections, stops, trips, routes } = feed;
+  const segments: TransitSegment[] = [];
+  const rides: Array<{ mode: GtfsMode; distM: number }> = [];
+  const point = (p: GeoPoint) => geoPoint(p.lng, p.lat);
+
+  const walk = (
+    fromName: string,
+    toName: string,
+    start: GeoPoint,
+    end: GeoPoint,
+    sec: number,
+    distM: number
+  ): TransitSegment => ({
+    mode: "WALK",
+    durationSec: sec,
+    distanceM: Math.round(distM),
+    fromName,
+    toName,
+    stationCount: 0,
+    start: point(start),
+    end: point(end),
+    path: [point(start), point(end)],
+  });
+
+  for (const leg of journey.legs) {
+    // Walks of zero length happen when the origin is right at a stop.
+    if (leg.kind !== "ride" && leg.sec === 0) continue;
+    if (leg.kind === "access") {
+      const stop = stops[leg.to];
+      segments.push(walk("출발지", stop.name, from, stop, leg.sec, leg.distM));
+    } else if (leg.kind === "egress") {
+      const stop = stops[leg.from];
+      segments.push(walk(stop.name, "도착지", stop, to, leg.sec, leg.distM));
+    } else if (leg.kind === "transfer") {
+      const a = stops[leg.from];
+      const b = stops[leg.to];
+      segments.push(walk(a.name, b.name, a, b, leg.sec, leg.distM));
+    } else {
+      const trip = connections.trip[leg.board];
+      const route = routes[trips[trip].route];
+      const distM =
+        connections.toDistM[leg.alight] - connections.fromDistM[leg.board];
+      const rideStops = feed.tripStops[trip]
+        .slice(
+          connections.fromIndex[leg.board],
+          connections.fromIndex[leg.alight] + 2
+        )
+        .map((stop) => point(stops[stop]));
+      rides.push({ mode: route.mode, distM });
+      segments.push({
+        mode: route.mode,
+        durationSec:
+          connections.arrSec[leg.alight] - connections.depSec[leg.board],
+        distanceM: Math.round(distM),
+        fromName: stops[connections.from[leg.board]].name,
+        toName: stops[connections.to[leg.alight]].name,
+        route: route.name,
+        routeColor: route.color,
+        operator: route.agency,
+        routeType: route.type,
+        // Matches TMAP, whose stop list counts both the boarding and the
+        // alighting stop.
+        stationCount: rideStops.length,
+        nextStopName: stops[connections.to[leg.board]].name,
+        start: rideStops[0],
+        end: rideStops[rideStops.length - 1],
+        path: rideStops,
+      });
+    }
+  }
+
+  const modes = new Set(rides.map((ride) => ride.mode));
+  return {
+    totalTimeSec: journey.arrivalSec - departSec,
+    fareKrw: estimateFare(rides),
+    pathType: modes.size > 1 ? 3 : modes.has("BUS") ? 2 : 1,
+    segments,
+  };
+}
+
+function mainRoute(feed: GtfsFeed, journey: Journey): number | null {
+  let longest: { route: number; sec: number } | null = null;
+  for (const leg of journey.legs) {
+    if (leg.kind !== "ride") continue;
+    const sec =
+      feed.connections.arrSec[leg.alight] - feed.connections.depSec[leg.board];
+    if (!longest || sec > longest.sec) {
+      longest = {
+        route: feed.trips[feed.connections.trip[leg.board]].route,
+        sec,
+      };
+    }
+  }
+  return longest?.route ?? null;
+}
+
+function searchFeed(
+  feed: GtfsFeed,
+  from: GeoPoint,
+  to: GeoPoint,
+  departAt: Date
+): TransitItinerary[] {
+  const access = walksToStops(feed, from);
+  const egress = walksToStops(feed, to);
+  if (access.length === 0 || egress.length === 0) return [];
+
+  const kst = new Date(departAt.getTime() + KST_OFFSET_MS);
+  const departSec =
+    kst.getUTCHours() * 3600 + kst.getUTCMinutes() * 60 + kst.getUTCSeconds();
+  const query = {
+    departSec,
+    maxArrivalSec: departSec + MAX_TRAVEL_SEC,
+    access,
+    egress,
+    activeTripsPrevDay: activeTrips(
+      feed,
+      new Date(departAt.getTime() - 24 * 60 * 60 * 1000)
+    ),
+    activeTrips: activeTrips(feed, departAt),
+    bannedRoutes: new Set<number>(),
+  };
+
+  const itineraries: TransitItinerary[] = [];
+  while (itineraries.length < MAX_ITINERARIES) {
+    const journey = earliestArrival(feed, query);
+    const route = journey && mainRoute(feed, journey);
+    if (!journey || route === null) break;
+    itineraries.push(toItinerary(feed, journey, from, to, departSec));
+    query.bannedRoutes.add(route);
+  }
+  return itineraries;
+}
+
+// Answers transit queries from a local GTFS feed with the Connection Scan
+// Algorithm. Alternatives come from re-running the search with the main
+// route of each earlier answer banned. Answers go through the API cache like
+// TMAP's, so repeated searches skip the scan and an isolate that only sees
+// cache hits never loads the feed.
+export function createGtfsTransitProvider(cache: ApiCache): TransitProvider {
+  return {
+    name: "gtfs",
+    async searchRoutes(from, to, departAt, signal) {
+      if (!isGtfsConfigured) {
+        console.error("GTFS_FEED_URL not set");
+        return [];
+      }
+      const searchDttm = toKstMinuteStamp(departAt);
+      const itineraries = await cache.wrap(
+        buildCacheKey("transit:gtfs", {
+          startX: from.lng,
+          startY: from.lat,
+          endX: to.lng,
+          endY: to.lat,
+          searchDttm,
+        }),
+        CACHE_TTL_SEC.transitRoute,
+        async () => {
+          const feed = await getFeed();
+          if (!feed || signal?.aborted) return null;
+          // Searched from the start of the minute the cache key names.
+          const minute = new Date(
+            Math.floor(departAt.getTime() / 60000) * 60000
+          );
+          return searchFeed(feed, from, to, minute);
+        },
+        (data) => data.length > 0
+      );
+      return itineraries ?? [];
+    },
+  };
+}
@@ -0,0 +1,330 @@
+import {
+  ApiCache,
+  buildCacheKey,
+  CACHE_TTL_SEC,
+} from "../../_shared/apiCache.ts";
+import { geoPoint } from "../../_shared/geo.ts";
+import { toKstMinuteStamp } from "../serviceHours.ts";
+import { upstreamSignal } from "./upstream.ts";
+import {
+  DrivingProvider,
+  DrivingRoute,
+  GeoPoint,
+  PoiProvider,
+  Station,
+} from "./types.ts";
+
+const KAKAO_REST_API_KEY = Deno.env.get("KAKAO_REST_API_KEY") || "";
+const KAKAO_LOCAL_BASE_URL =
+  Deno.env.get("KAKAO_LOCAL_BASE_URL") || "https://dapi.kakao.com";
+const KAKAO_MOBILITY_BASE_URL =
+  Deno.env.get("KAKAO_MOBILITY_BASE_URL") ||
+  "https://apis-navi.kakaomobility.com";
+// Rides starting sooner than this are close enough to current traffic.
+const FUTURE_DIRECTIONS_MIN_AHEAD_MIN = 15;
+
+interface KakaoKeywordDocument {
+  id: string;
+  place_name: string;
+  x: string;
+  y: string;
+}
+
+interface KakaoDirectionsResponse {
+  routes?: Array<{
+    summary?: {
+      duration: number;
+      distance: number;
+      fare?: {
+        taxi?: number;
+        toll?: number;
+      };
+    };
+    sections?: Array<{
+      roads?: Array<{
+        // Flat [x1, y1, x2, y2, ...] in WGS84.
+        vertexes?: number[];
+      }>;
+    }>;
+  }>;
+}
+
+interface KakaoBatchResponse {
+  routes?: Array<{
+    summary?: {
+      duration: number;
+    };
+  }>;
+}
+
+function serializePoints(points: GeoPoint[]): string {
+  return points.map((p) => `${p.lng.toFixed(5)},${p.lat.toFixed(5)}`).join("|");
+}
+
+function routePath(
+  route: NonNullable<KakaoDirectionsResponse["routes"]>[number]
+): GeoPoint[] | undefined {
+  const path: GeoPoint[] = [];
+  for (const section of route.sections ?? []) {
+    for (const road of section.roads ?? []) {
+      const vertexes = road.vertexes ?? [];
+      for (let i = 0; i + 1 < vertexes.length; i += 2) {
+        path.push(geoPoint(vertexes[i], vertexes[i + 1]));
+      }
+    }
+  }
+  return path.length > 1 ? path : undefined;
+}
+
+function toBatchDurations(
+  data: KakaoBatchResponse | null
+): Array<number | null> | null {
+  if (!data?.routes) return null;
+  return data.routes.map((route) => route.summary?.duration ?? null);
+}
+
+async function requestNearbyStations(
+  x: number,
+  y: number,
+  radius: number
+): Promise<Station[]> {
+  if (!KAKAO_REST_API_KEY) {
+    console.error("KAKAO_REST_API_KEY not set");
+    return [];
+  }
+
+  try {
+    const radiusKm = Math.min(radius, 20000);
+    const url = `${KAKAO_LOCAL_BASE_URL}/v2/local/search/keyword.json?query=지하철역&x=${x}&y=${y}&radius=${radiusKm}&size=15`;
+
+    const response = await fetch(url, {
+      signal: upstreamSignal(),
+      headers: {
+        Authorization: `KakaoAK ${KAKAO_REST_API_KEY}`,
+      },
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error(
+        "Kakao station search error status:",
+        response.status,
+        errorText
+      );
+      return [];
+    }
+
+    const data = await response.json();
+
+    if (data?.documents && Array.isArray(data.documents)) {
+      const stations = data.documents.map((doc: KakaoKeywordDocument) => ({
+        id: doc.id,
+        name: doc.place_name,
+        lng: parseFloat(doc.x),
+        lat: parseFloat(doc.y),
+      }));
+
+      console.log(
+        `Found ${stations.length} stations near (${x}, ${y}) within ${radiusKm}m`
+      );
+      return stations;
+    }
+    console.log(`No stations found near (${x}, ${y}) within ${radiusKm}m`);
+    return [];
+  } catch (error) {
+    console.error("Kakao station search error:", error);
+    return [];
+  }
+}
+
+async function requestKakaoDirections(
+  originLng: number,
+  originLat: number,
+  destLng: number,
+  destLat: number,
+  departureTime?: string,
+  signal?: AbortSignal
+): Promise<KakaoDirectionsResponse | null> {
+  try {
+    const endpoint = departureTime
+      ? `/v1/future/directions?departure_time=${departureTime}&`
+      : "/v1/directions?";
+    const url = `${KAKAO_MOBILITY_BASE_URL}${endpoint}origin=${originLng},${originLat}&destination=${destLng},${destLat}&priority=RECOMMEND&car_fuel=GASOLINE&car_hipass=false&alternatives=false&road_details=true`;
+
+    const response = await fetch(url, {
+      signal: upstreamSignal(signal),
+      headers: {
+        Authorization: `KakaoAK ${KAKAO_REST_API_KEY}`,
+        "Content-Type": "application/json",
+      },
+    });
+
+    const data = await response.json();
+    return data;
+  } catch (error) {
+    console.error("Kakao directions error:", error);
+    return null;
+  }
+}
+
+async function requestTaxiEtaToDestinations(
+  originLng: number,
+  originLat: number,
+  destinations: GeoPoint[]
+): Promise<KakaoBatchResponse | null> {
+  try {
+    if (destinations.length === 0) return null;
+
+    const destParam = destinations
+      .slice(0, 30)
+      .map((d) => `${d.lng},${d.lat}`)
+      .join("|");
+    const url = `${KAKAO_MOBILITY_BASE_URL}/v1/destinations?origin=${originLng},${originLat}&destinations=${destParam}&priority=RECOMMEND&summary=true`;
+
+    const response = await fetch(url, {
+      signal: upstreamSignal(),
+      headers: {
+        Authorization: `KakaoAK ${KAKAO_REST_API_KEY}`,
+        "Content-Type": "application/json",
+      },
+    });
+
+    const data = await response.json();
+    return data;
+  } catch (error) {
+    console.error("Kakao batch destinations error:", error);
+    return null;
+  }
+}
+
+async function requestTaxiEtaFromOrigins(
+  origins: GeoPoint[],
+  destLng: number,
+  destLat: number
+): Promise<KakaoBatchResponse | null> {
+  try {
+    if (origins.length === 0) return null;
+
+    const originsParam = origins
+      .slice(0, 30)
+      .map((o) => `${o.lng},${o.lat}`)
+      .join("|");
+    const url = `${KAKAO_MOBILITY_BASE_URL}/v1/origins?origins=${originsParam}&destination=${destLng},${destLat}&priority=RECOMMEND&summary=true`;
+
+    const response = await fetch(url, {
+      signal: upstreamSignal(),
+      headers: {
+        Authorization: `KakaoAK ${KAKAO_REST_API_KEY}`,
+        "Content-Type": "application/json",
+      },
+    });
+
+    const data = await response.json();
+    return data;
+  } catch (error) {
+    console.error("Kakao batch origins error:", error);
+    return null;
+  }
+}
+
+export function createKakaoDrivingProvider(cache: ApiCache): DrivingProvider {
+  return {
+    name: "kakao",
+    route(from, to, departAt, signal) {
+      const departureTime =
+        departAt &&
+        departAt.getTime() - Date.now() >
+          FUTURE_DIRECTIONS_MIN_AHEAD_MIN * 60000
+          ? toKstMinuteStamp(departAt)
+          : undefined;
+      return cache.wrap(
+        buildCacheKey("driving-route:kakao", {
+          originLng: from.lng,
+          originLat: from.lat,
+          destLng: to.lng,
+          destLat: to.lat,
+          departureTime,
+        }),
+        CACHE_TTL_SEC.taxiDirections,
+        async (): Promise<DrivingRoute | null> => {
+          const data = await requestKakaoDirections(
+            from.lng,
+            from.lat,
+            to.lng,
+            to.lat,
+            departureTime,
+            signal
+          );
+          const route = data?.routes?.[0];
+          const summary = route?.summary;
+          if (!route || summary?.duration === undefined) return null;
+          if (summary.distance === undefined) return null;
+          return {
+            distanceM: summary.distance,
+            durationSec: summary.duration,
+            taxiFareKrw: summary.fare?.taxi,
+            tollFareKrw: summary.fare?.toll,
+            path: routePath(route),
+          };
+        }
+      );
+    },
+    etasFrom(origin, destinations) {
+      return cache.wrap(
+        buildCacheKey("eta-from:kakao", {
+          originLng: origin.lng,
+          originLat: origin.lat,
+          destinations: serializePoints(destinations),
+        }),
+        CACHE_TTL_SEC.taxiEta,
+        async () =>
+          toBatchDurations(
+            await requestTaxiEtaToDestinations(
+              origin.lng,
+              origin.lat,
+              destinations
+            )
+          ),
+        (data) => data.length > 0
+      );
+    },
+    etasTo(origins, destination) {
+      return cache.wrap(
+        buildCacheKey("eta-to:kakao", {
+          origins: serializePoints(origins),
+          destLng: destination.lng,
+          destLat: destination.lat,
+        }),
+        CACHE_TTL_SEC.taxiEta,
+        async () =>
+          toBatchDurations(
+            await requestTaxiEtaFromOrigins(
+              origins,
+              destination.lng,
+              destination.lat
+            )
+          ),
+        (data) => data.length > 0
+      );
+    },
+  };
+}
+
+export function createKakaoPoiProvider(cache: ApiCache): PoiProvider {
+  return {
+    name: "kakao",
+    async nearbyStations(center, radiusM) {
+      const stations = await cache.wrap(
+        buildCacheKey("stations:kakao", {
+          x: center.lng,
+          y: center.lat,
+          radius: radiusM,
+        }),
+        CACHE_TTL_SEC.stationPoi,
+        () => requestNearbyStations(center.lng, center.lat, radiusM),
+        (data) => data.length > 0
+      );
+      return stations ?? [];
+    },
+  };
+}
@@ -0,0 +1,94 @@
+import { ApiCache } from "../../_shared/apiCache.ts";
+import { TransitSource } from "../../_shared/routeContract.ts";
+import {
+  drivingWithFailover,
+  poiWithFailover,
+  transitWithFailover,
+} from "./failover.ts";
+import { createGtfsTransitProvider } from "./gtfs.ts";
+import { createKakaoDrivingProvider, createKakaoPoiProvider } from "./kakao.ts";
+import {
+  createSeoulArrivalProvider,
+  isSeoulArrivalConfigured,
+} from "./seoulArrivals.ts";
+import { createTmapTransitProvider } from "./tmap.ts";
+import {
+  ArrivalProvider,
+  DrivingProvider,
+  PoiProvider,
+  TransitProvider,
+} from "./types.ts";
+
+type AdapterFactory<P> = (cache: ApiCache) => P;
+
+const TRANSIT_ADAPTERS: Record<
+  TransitSource,
+  AdapterFactory<TransitProvider>
+> = {
+  tmap: createTmapTransitProvider,
+  gtfs: createGtfsTransitProvider,
+};
+const DRIVING_ADAPTERS: Record<string, AdapterFactory<DrivingProvider>> = {
+  kakao: createKakaoDrivingProvider,
+};
+const POI_ADAPTERS: Record<string, AdapterFactory<PoiProvider>> = {
+  kakao: createKakaoPoiProvider,
+};
+
+export interface Providers {
+  transit: TransitProvider;
+  driving: DrivingProvider;
+  poi: PoiProvider;
+  // Null when no real-time feed is configured.
+  arrivals: ArrivalProvider | null;
+}
+
+// Failover order comes from a comma-separated env var, e.g.
+// TRANSIT_PROVIDERS=tmap,gtfs. Unknown names are logged and skipped.
+function configuredAdapters<P>(
+  adapters: Record<string, AdapterFactory<P>>,
+  envName: string,
+  fallback: string,
+  cache: ApiCache
+): P[] {
+  const names = (Deno.env.get(envName) || fallback)
+    .split(",")
+    .map((name) => name.trim())
+    .filter((name) => {
+      if (!name || name in adapters) return !!name;
+      console.error(`${envName}: unknown provider "${name}"`);
+      return false;
+    });
+  return (names.length > 0 ? names : [fallback]).map((name) =>
+    adapters[name](cache)
+  );
+}
+
+// A request that names its transit source gets exactly that adapter, with
+// no failover, so results from different sources can be compared.
+export function createProviders(
+  cache: ApiCache,
+  transitSource?: TransitSource
+): Providers {
+  return {
+    transit: transitSource
+      ? TRANSIT_ADAPTERS[transitSource](cache)
+      : transitWithFailover(
+          configuredAdapters(
+            TRANSIT_ADAPTERS,
+            "TRANSIT_PROVIDERS",
+            "tmap",
+            cache
+          )
+        ),
+    driving: drivingWithFailover(
+      configuredAdapters(DRIVING_ADAPTERS, "DRIVING_PROVIDERS", "kakao", cache)
+    ),
+    poi: poiWithFailover(
+      configuredAdapters(POI_ADAPTERS, "POI_PROVIDERS", "kakao", cache)
+    ),
+    arrivals: isSeoulArrivalConfigured
+      ? createSeoulArrivalProvider(cache)
+      : null,
+  };
+}
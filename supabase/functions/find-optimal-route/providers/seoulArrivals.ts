@@ -0,0 +1,220 @@
+import {
+  ApiCache,
+  buildCacheKey,
+  CACHE_TTL_SEC,
+} from "../../_shared/apiCache.ts";
+import { calculateDistance } from "../../_shared/geo.ts";
+import { UPSTREAM_TIMEOUT_MS } from "./upstream.ts";
+import { ArrivalProvider, ArrivalQuery } from "./types.ts";
+
+// Seoul Open Data real-time subway arrivals and the Seoul bus information
+// system. Both base URLs can point at a local mock.
+const SEOUL_SUBWAY_API_KEY = Deno.env.get("SEOUL_SUBWAY_API_KEY") || "";
+const SEOUL_SUBWAY_BASE_URL =
+  Deno.env.get("SEOUL_SUBWAY_BASE_URL") || "http://swopenapi.seoul.go.kr";
+const SEOUL_BUS_API_KEY = Deno.env.get("SEOUL_BUS_API_KEY") || "";
+const SEOUL_BUS_BASE_URL =
+  Deno.env.get("SEOUL_BUS_BASE_URL") || "http://ws.bus.go.kr";
+
+const DWELL_GRACE_MS = 30 * 1000;
+
+export const isSeoulArrivalConfigured =
+  !!SEOUL_SUBWAY_API_KEY || !!SEOUL_BUS_API_KEY;
+
+// subwayId in the arrival feed, keyed by how TMAP and GTFS feeds name lines.
+// 신분당 comes before 분당, which it contains.
+const SUBWAY_LINE_IDS: Array<[RegExp, string]> = [
+  [/신분당/, "1077"],
+  [/1호선/, "1001"],
+  [/2호선/, "1002"],
+  [/3호선/, "1003"],
+  [/4호선/, "1004"],
+  [/5호선/, "1005"],
+  [/6호선/, "1006"],
+  [/7호선/, "1007"],
+  [/8호선/, "1008"],
+  [/9호선/, "1009"],
+  [/경의|중앙선/, "1063"],
+  [/공항/, "1065"],
+  [/경춘/, "1067"],
+  [/수인|분당/, "1075"],
+  [/우이신설/, "1092"],
+];
+
+interface SubwayArrivalItem {
+  subwayId: string;
+  // "성수행 - 역삼방면"
+  trainLineNm: string;
+  // Seconds until arrival; "0" when the feed only has a status message.
+  barvlDt: string;
+  // 0 entering, 1 arrived, 2 departed, ...
+  arvlCd: string;
+}
+
+interface BusStopItem {
+  arsId: string;
+  stNm: string;
+  tmX: string;
+  tmY: string;
+}
+
+interface BusArrivalItem {
+  rtNm: string;
+  // Seconds until the first and second bus; "0" when none is running.
+  traTime1: string;
+  traTime2: string;
+}
+
+function subwayLineId(route: string | undefined): string | undefined {
+  if (!route) return undefined;
+  return SUBWAY_LINE_IDS.find(([pattern]) => pattern.test(route))?.[1];
+}
+
+// The feeds name stations without the 역 suffix and bus routes without the
+// TMAP type prefix ("간선:470").
+function stationName(name: string): string {
+  return name.replace(/역$/, "").trim();
+}
+
+function busRouteName(route: string | undefined): string | undefined {
+  return route?.split(":").pop()?.trim();
+}
+
+async function getJson<T>(url: string, label: string): Promise<T | null> {
+  try {
+    const response = await fetch(url, {
+      signal: AbortSignal.timeout(UPSTREAM_TIMEOUT_MS),
+    });
+    if (!response.ok) {
+      console.error(`${label} error status:`, response.status);
+      return null;
+    }
+    return await response.json();
+  } catch (error) {
+    console.error(`${label} error:`, error);
+    return null;
+  }
+}
+
+// Both feeds count seconds from when they were asked; these return epoch
+// milliseconds instead so that cached answers do not drift.
+async function subwayArrivals(query: ArrivalQuery): Promise<number[] | null> {
+  const lineId = subwayLineId(query.route);
+  if (!SEOUL_SUBWAY_API_KEY || !lineId) return null;
+
+  const name = stationName(query.stopName);
+  const data = await getJson<{ realtimeArrivalList?: SubwayArrivalItem[] }>(
+    `${SEOUL_SUBWAY_BASE_URL}/api/subway/${SEOUL_SUBWAY_API_KEY}/json/realtimeStationArrival/0/20/${encodeURIComponent(
+      name
+    )}`,
+    "Seoul subway arrival"
+  );
+  if (!data) return null;
+
+  const towards = query.nextStopName && stationName(query.nextStopName);
+  const now = Date.now();
+  return (data.realtimeArrivalList ?? [])
+    .filter(
+      (item) =>
+        item.subwayId === lineId &&
+        (!towards || item.trainLineNm.includes(`${towards}방면`))
+    )
+    .flatMap((item) => {
+      const sec = Number(item.barvlDt);
+      if (sec > 0) return [now + sec * 1000];
+      return item.arvlCd === "0" || item.arvlCd === "1" ? [now] : [];
+    })
+    .sort((a, b) => a - b);
+}
+
+// Bus stops share names across both sides of a road, so the one closest to
+// where the itinerary boards is used.
+async function busStopId(
+  query: ArrivalQuery,
+  cache: ApiCache
+): Promise<string | null> {
+  const stops = await cache.wrap(
+    buildCacheKey("seoul:bus-stop", { name: query.stopName }),
+    CACHE_TTL_SEC.busStopLookup,
+    async () => {
+      const data = await getJson<{ msgBody?: { itemList?: BusStopItem[] } }>(
+        `${SEOUL_BUS_BASE_URL}/api/rest/stationinfo/getStationByName?serviceKey=${SEOUL_BUS_API_KEY}&stSrch=${encodeURIComponent(
+          query.stopName
+        )}&resultType=json`,
+        "Seoul bus stop lookup"
+      );
+      return data ? data.msgBody?.itemList ?? [] : null;
+    }
+  );
+  if (!stops || stops.length === 0) return null;
+
+  const stop = query.stop;
+  const distanceTo = (item: BusStopItem) =>
+    stop
+      ? calculateDistance(
+          stop.lat,
+          stop.lng,
+          Number(item.tmY),
+          Number(item.tmX)
+        )
+      : 0;
+  return stops.reduce((best, item) =>
+    distanceTo(item) < distanceTo(best) ? item : best
+  ).arsId;
+}
+
+async function busArrivals(
+  query: ArrivalQuery,
+  cache: ApiCache
+): Promise<number[] | null> {
+  const route = busRouteName(query.route);
+  if (!SEOUL_BUS_API_KEY || !route) return null;
+
+  const arsId = await busStopId(query, cache);
+  if (!arsId) return null;
+
+  const data = await getJson<{ msgBody?: { itemList?: BusArrivalItem[] } }>(
+    `${SEOUL_BUS_BASE_URL}/api/rest/stationinfo/getStationByUid?serviceKey=${SEOUL_BUS_API_KEY}&arsId=${arsId}&resultType=json`,
+    "Seoul bus arrival"
+  );
+  if (!data) return null;
+
+  const item = (data.msgBody?.itemList ?? []).find((bus) => bus.rtNm === route);
+  if (!item) return [];
+  const now = Date.now();
+  return [Number(item.traTime1), Number(item.traTime2)]
+    .filter((sec) => sec > 0)
+    .map((sec) => now + sec * 1000)
+    .sort((a, b) => a - b);
+}
+
+export function createSeoulArrivalProvider(cache: ApiCache): ArrivalProvider {
+  return {
+    name: "seoul",
+    async nextArrivals(query) {
+      const arrivals = await cache.wrap(
+        buildCacheKey("seoul:arrivals", {
+          mode: query.mode,
+          stop: query.stopName,
+          route: query.route,
+          next: query.nextStopName,
+          lat: query.stop?.lat,
+          lng: query.stop?.lng,
+        }),
+        CACHE_TTL_SEC.realtimeArrival,
+        () =>
+          query.mode === "SUBWAY"
+            ? subwayArrivals(query)
+            : busArrivals(query, cache)
+      );
+      // A vehicle reported as arriving may still be at the stop a little
+      // after the report.
+      const now = Date.now();
+      return (
+        arrivals
+          ?.filter((at) => at >= now - DWELL_GRACE_MS)
+          .map((at) => Math.max(0, Math.round((at - now) / 1000))) ?? null
+      );
+    },
+  };
+}
@@ -0,0 +1,213 @@
+import {
+  ApiCache,
+  buildCacheKey,
+  CACHE_TTL_SEC,
+} from "../../_shared/apiCache.ts";
+import { geoPoint } from "../../_shared/geo.ts";
+import { toKstMinuteStamp } from "../serviceHours.ts";
+import { upstreamSignal } from "./upstream.ts";
+import {
+  GeoPoint,
+  TransitItinerary,
+  TransitProvider,
+  TransitSegment,
+} from "./types.ts";
+
+const TMAP_API_KEY = Deno.env.get("TMAP_API_KEY") || "";
+const TMAP_BASE_URL =
+  Deno.env.get("TMAP_BASE_URL") || "https://apis.openapi.sk.com";
+
+export const isTmapConfigured = !!TMAP_API_KEY;
+
+interface TmapPlace {
+  name?: string;
+  lon?: number;
+  lat?: number;
+}
+
+type TmapLeg = NonNullable<TmapItinerary["legs"]>[number];
+
+interface TmapItinerary {
+  totalTime: number;
+  totalWalkTime?: number;
+  totalDistance?: number;
+  fare?: {
+    regular?: {
+      totalFare: number;
+    };
+  };
+  transferCount?: number;
+  pathType?: number;
+  legs?: Array<{
+    mode: string;
+    sectionTime: number;
+    distance: number;
+    start?: TmapPlace;
+    end?: TmapPlace;
+    route?: string;
+    routeColor?: string;
+    service?: number;
+    passStopList?: {
+      stations?: Array<{
+        stationName?: string;
+      }>;
+    };
+    // "lon,lat lon,lat ..." for rides; walks carry it per step instead.
+    passShape?: {
+      linestring?: string;
+    };
+    steps?: Array<{
+      linestring?: string;
+    }>;
+  }>;
+}
+
+interface TmapTransitResponse {
+  metaData?: {
+    plan?: {
+      itineraries?: TmapItinerary[];
+    };
+  };
+}
+
+function placePoint(place: TmapPlace | undefined): GeoPoint | undefined {
+  if (place?.lon === undefined || place.lat === undefined) return undefined;
+  return geoPoint(place.lon, place.lat);
+}
+
+function parseLinestring(linestring: string): GeoPoint[] {
+  return linestring
+    .trim()
+    .split(/\s+/)
+    .map((pair) => pair.split(",").map(Number))
+    .filter(([lon, lat]) => Number.isFinite(lon) && Number.isFinite(lat))
+    .map(([lon, lat]) => geoPoint(lon, lat));
+}
+
+function legPath(leg: TmapLeg): GeoPoint[] | undefined {
+  const linestrings = leg.passShape?.linestring
+    ? [leg.passShape.linestring]
+    : (leg.steps ?? []).flatMap((step) => step.linestring ?? []);
+  const path = linestrings.flatMap(parseLinestring);
+  return path.length > 1 ? path : undefined;
+}
+
+function normalizeItinerary(itinerary: TmapItinerary): TransitItinerary {
+  return {
+    totalTimeSec: itinerary.totalTime,
+    fareKrw: itinerary.fare?.regular?.totalFare || 0,
+    pathType: itinerary.pathType,
+    segments: (itinerary.legs ?? []).map(
+      (leg): TransitSegment => ({
+        mode: leg.mode as TransitSegment["mode"],
+        durationSec: leg.sectionTime || 0,
+        distanceM: leg.distance,
+        fromName: leg.start?.name || "",
+        toName: leg.end?.name || "",
+        route: leg.route,
+        routeColor: leg.routeColor,
+        service: leg.service,
+        stationCount: leg.passStopList?.stations?.length || 0,
+        nextStopName: leg.passStopList?.stations?.[1]?.stationName,
+        start: placePoint(leg.start),
+        end: placePoint(leg.end),
+        path: legPath(leg),
+      })
+    ),
+  };
+}
+
+async function requestTmapRoute(
+  startX: number,
+  startY: number,
+  endX: number,
+  endY: number,
+  searchDttm: string,
+  signal?: AbortSignal
+): Promise<TmapTransitResponse | null> {
+  try {
+    const url = `${TMAP_BASE_URL}/transit/routes`;
+
+    const requestBody = {
+      startX,
+      startY,
+      endX,
+      endY,
+      searchDttm,
+      count: 5,
+      lang: 0,
+      format: "json",
+    };
+
+    console.log("TMAP API Request:", {
+      url,
+      body: requestBody,
+      hasKey: !!TMAP_API_KEY,
+    });
+
+    const response = await fetch(url, {
+      signal: upstreamSignal(signal),
+      method: "POST",
+      headers: {
+        accept: "application/json",
+        appKey: TMAP_API_KEY,
+        "content-type": "application/json",
+      },
+      body: JSON.stringify(requestBody),
+    });
+
+    console.log("TMAP API Response status:", response.status);
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error("TMAP API error:", {
+        status: response.status,
+        error: errorText,
+      });
+      return null;
+    }
+
+    const data = await response.json();
+    console.log(
+      "TMAP API Response data:",
+      JSON.stringify(data).substring(0, 500)
+    );
+    return data;
+  } catch (error) {
+    console.error("TMAP searchRoute error:", error);
+    return null;
+  }
+}
+
+export function createTmapTransitProvider(cache: ApiCache): TransitProvider {
+  return {
+    name: "tmap",
+    async searchRoutes(from, to, departAt, signal) {
+      const searchDttm = toKstMinuteStamp(departAt);
+      const itineraries = await cache.wrap(
+        buildCacheKey("transit:tmap", {
+          startX: from.lng,
+          startY: from.lat,
+          endX: to.lng,
+          endY: to.lat,
+          searchDttm,
+        }),
+        CACHE_TTL_SEC.transitRoute,
+        async () => {
+          const data = await requestTmapRoute(
+            from.lng,
+            from.lat,
+            to.lng,
+            to.lat,
+            searchDttm,
+            signal
+          );
+          const raw = data?.metaData?.plan?.itineraries;
+          return raw ? raw.map(normalizeItinerary) : null;
+        },
+        (data) => data.length > 0
+      );
+      return itineraries ?? [];
+    },
+  };
+}
@@ -0,0 +1,100 @@
+import { GeoPoint } from "../../_shared/routeContract.ts";
+
+// Provider-neutral shapes the route search works with. Adapters translate
+// their upstream responses into these and return an empty result (never
+// throw) when the upstream has nothing or fails, so callers can fail over.
+
+export type { GeoPoint };
+
+export interface TransitSegment {
+  mode: "WALK" | "BUS" | "SUBWAY";
+  durationSec: number;
+  distanceM: number;
+  fromName: string;
+  toName: string;
+  route?: string;
+  routeColor?: string;
+  // The agency running the route and its GTFS route_type, for sources that
+  // have them.
+  operator?: string;
+  routeType?: number;
+  service?: number;
+  stationCount: number;
+  nextStopName?: string;
+  start?: GeoPoint;
+  end?: GeoPoint;
+  path?: GeoPoint[];
+}
+
+export interface TransitItinerary {
+  totalTimeSec: number;
+  fareKrw: number;
+  pathType?: number;
+  segments: TransitSegment[];
+}
+
+export interface TransitProvider {
+  name: string;
+  // An aborted `signal` cancels the upstream call; the result is then empty.
+  searchRoutes(
+    from: GeoPoint,
+    to: GeoPoint,
+    departAt: Date,
+    signal?: AbortSignal
+  ): Promise<TransitItinerary[]>;
+}
+
+export interface DrivingRoute {
+  distanceM: number;
+  durationSec: number;
+  // The provider's own quote for a ride starting now, when it has one.
+  taxiFareKrw?: number;
+  tollFareKrw?: number;
+  path?: GeoPoint[];
+}
+
+export interface DrivingProvider {
+  name: string;
+  // `departAt` asks for traffic at that time instead of right now.
+  route(
+    from: GeoPoint,
+    to: GeoPoint,
+    departAt?: Date,
+    signal?: AbortSignal
+  ): Promise<DrivingRoute | null>;
+  // Durations in seconds, index-aligned with the input points; null entries
+  // have no route. The whole result is null when the batch call failed.
+  etasFrom(
+    origin: GeoPoint,
+    destinations: GeoPoint[]
+  ): Promise<Array<number | null> | null>;
+  etasTo(
+    origins: GeoPoint[],
+    destination: GeoPoint
+  ): Promise<Array<number | null> | null>;
+}
+
+export interface Station extends GeoPoint {
+  id: string;
+  name: string;
+}
+
+export interface PoiProvider {
+  name: string;
+  nearbyStations(center: GeoPoint, radiusM: number): Promise<Station[]>;
+}
+
+export interface ArrivalQuery {
+  mode: "BUS" | "SUBWAY";
+  stopName: string;
+  route?: string;
+  nextStopName?: string;
+  stop?: GeoPoint;
+}
+
+export interface ArrivalProvider {
+  name: string;
+  // Seconds from now until each upcoming vehicle of the route reaches the
+  // stop, soonest first. Null when the feed failed or does not know the stop.
+  nextArrivals(query: ArrivalQuery): Promise<number[] | null>;
+}
@@ -0,0 +1,8 @@
+export const UPSTREAM_TIMEOUT_MS =
+  Number(Deno.env.get("UPSTREAM_TIMEOUT_MS")) || 5000;
+
+// The per-call timeout, cut short when the caller gives up first.
+export function upstreamSignal(signal?: AbortSignal): AbortSignal {
+  const timeout = AbortSignal.timeout(UPSTREAM_TIMEOUT_MS);
+  return signal ? AbortSignal.any([timeout, signal]) : timeout;
+}
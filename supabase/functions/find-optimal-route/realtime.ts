@@ -0,0 +1,147 @@
+import {
+  RouteCandidate,
+  TransitDetails,
+  TransitStep,
+} from "../_shared/routeContract.ts";
+import { ArrivalProvider } from "./providers/types.ts";
+
+// Arrival feeds only cover the next couple of vehicles, so routes that reach
+// their first stop later than this keep the timetable estimate.
+const REALTIME_HORIZON_MIN = 30;
+
+interface FirstRide {
+  step: TransitStep;
+  legIndex: number;
+  reachMin: number;
+}
+
+// The first bus or subway of the route and how long it takes to get to its
+// stop, by taxi or on foot.
+function firstRide(candidate: RouteCandidate): FirstRide | null {
+  let reachMin = 0;
+  for (const [legIndex, leg] of candidate.legs.entries()) {
+    if (leg.type !== "transit") {
+      reachMin += leg.durationMin;
+      continue;
+    }
+    for (const step of (leg.details as TransitDetails | undefined)?.steps ??
+      []) {
+      if (step.mode !== "WALK") return { step, legIndex, reachMin };
+      reachMin += step.duration / 60;
+    }
+  }
+  return null;
+}
+
+function arrivalLookup(provider: ArrivalProvider) {
+  const lookups = new Map<string, Promise<number[] | null>>();
+  return (step: TransitStep) => {
+    const key = [step.mode, step.from, step.route, step.nextStop].join("|");
+    if (!lookups.has(key)) {
+      lookups.set(
+        key,
+        provider.nextArrivals({
+          mode: step.mode as "BUS" | "SUBWAY",
+          stopName: step.from,
+          route: step.route,
+          nextStopName: step.nextStop,
+          stop: step.start,
+        })
+      );
+    }
+    return lookups.get(key)!;
+  };
+}
+
+// Adds the live wait for each route's first vehicle to its timings, marking
+// routes that no longer fit `maxTimeMin` as infeasible. Returns how many
+// routes were adjusted.
+export async function applyRealtimeArrivals(
+  candidates: RouteCandidate[],
+  provider: ArrivalProvider,
+  departureAt: Date,
+  maxTimeMin: number,
+  now: Date = new Date()
+): Promise<number> {
+  const lookup = arrivalLookup(provider);
+  const startOffsetSec = (departureAt.getTime() - now.getTime()) / 1000;
+  const adjusted = await Promise.all(
+    candidates.map(async (candidate) => {
+      const ride = firstRide(candidate);
+      if (!ride) return false;
+      const reachSec = startOffsetSec + ride.reachMin * 60;
+      if (reachSec < 0 || reachSec > REALTIME_HORIZON_MIN * 60) return false;
+
+      const arrivals = await lookup(ride.step);
+      const nextSec = arrivals?.find((sec) => sec >= reachSec);
+      if (nextSec === undefined) return false;
+
+      const waitMin = Math.ceil((nextSec - reachSec) / 60);
+      ride.step.realtime = {
+        arrivesInMin: Math.round(nextSec / 60),
+        waitMin,
+        nextDepartureAt: new Date(now.getTime() + nextSec * 1000).toISOString(),
+        provider: provider.name,
+      };
+      candidate.legs[ride.legIndex].durationMin += waitMin;
+      candidate.totalTimeMin += waitMin;
+      candidate.slackMin -= waitMin;
+      if (candidate.totalTimeMin > maxTimeMin) candidate.isFeasible = false;
+      return true;
+    })
+  );
+  return adjusted.filter(Boolean).length;
+}
+
+// Arrive-by routes board the last live vehicle that still makes the deadline,
+// so their leaveBy moves earlier to reach its stop in time. Routes whose
+// vehicles have all left too late, or too early to catch after `earliestAt`,
+// are marked infeasible. Returns how many routes were adjusted.
+export async function alignToRealtimeArrivals(
+  candidates: RouteCandidate[],
+  provider: ArrivalProvider,
+  arriveBy: Date,
+  earliestAt: Date,
+  now: Date = new Date()
+): Promise<number> {
+  const lookup = arrivalLookup(provider);
+  const earliestOffsetSec = (earliestAt.getTime() - now.getTime()) / 1000;
+
+  const adjusted = await Promise.all(
+    candidates.map(async (candidate) => {
+      const ride = firstRide(candidate);
+      if (!ride) return false;
+      const leaveByMs = arriveBy.getTime() - candidate.totalTimeMin * 60000;
+      const reachSec = (leaveByMs - now.getTime()) / 1000 + ride.reachMin * 60;
+      if (reachSec < 0 || reachSec > REALTIME_HORIZON_MIN * 60) return false;
+
+      const arrivals = await lookup(ride.step);
+      if (!arrivals) return false;
+      const earliestReachSec =
+        Math.max(0, earliestOffsetSec) + ride.reachMin * 60;
+      const catchable = arrivals.filter(
+        (sec) => sec >= earliestReachSec && sec <= reachSec
+      );
+      if (catchable.length === 0) {
+        candidate.isFeasible = false;
+        return true;
+      }
+
+      const boardSec = Math.max(...catchable);
+      const earlierMin = Math.ceil((reachSec - boardSec) / 60);
+      ride.step.realtime = {
+        arrivesInMin: Math.round(boardSec / 60),
+        waitMin: 0,
+        nextDepartureAt: new Date(
+          now.getTime() + boardSec * 1000
+        ).toISOString(),
+        provider: provider.name,
+      };
+      candidate.leaveBy = new Date(
+        leaveByMs - earlierMin * 60000
+      ).toISOString();
+      return true;
+    })
+  );
+  return adjusted.filter(Boolean).length;
+}
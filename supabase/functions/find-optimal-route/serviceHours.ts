@@ -0,0 +1,39 @@
+export const KST_OFFSET_MS = 9 * 60 * 60 * 1000;
+
+// Minutes-of-day (KST) during which regular services do not run. Night bus
+// routes (N-numbered or 심야) are exempt from the bus window.
+const SUBWAY_NO_SERVICE = { startMin: 60, endMin: 5 * 60 + 30 };
+const BUS_NO_SERVICE = { startMin: 60, endMin: 4 * 60 };
+const NIGHT_BUS_ROUTE = /(^|[^A-Za-z])N\d|심야/;
+
+export function kstMinuteOfDay(time: Date): number {
+  const kst = new Date(time.getTime() + KST_OFFSET_MS);
+  return kst.getUTCHours() * 60 + kst.getUTCMinutes();
+}
+
+export function toKstMinuteStamp(time: Date): string {
+  const kst = new Date(time.getTime() + KST_OFFSET_MS);
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return (
+    `${kst.getUTCFullYear()}${pad(kst.getUTCMonth() + 1)}` +
+    `${pad(kst.getUTCDate())}${pad(kst.getUTCHours())}` +
+    `${pad(kst.getUTCMinutes())}`
+  );
+}
+
+export function isAfterLastService(
+  mode: string,
+  route: string | undefined,
+  boardingTime: Date
+): boolean {
+  const minute = kstMinuteOfDay(boardingTime);
+  const inWindow = (w: { startMin: number; endMin: number }) =>
+    minute >= w.startMin && minute < w.endMin;
+
+  if (mode === "SUBWAY") return inWindow(SUBWAY_NO_SERVICE);
+  if (mode === "BUS") {
+    if (route && NIGHT_BUS_ROUTE.test(route)) return false;
+    return inWindow(BUS_NO_SERVICE);
+  }
+  return false;
+}
@@ -0,0 +1,225 @@
+import { TaxiProduct, TaxiRegion } from "../_shared/routeContract.ts";
+
+export interface NightSurcharge {
+  startHour: number;
+  endHour: number;
+  rate: number;
+}
+
+export interface TaxiTariff {
+  region: TaxiRegion;
+  baseFareKrw: number;
+  baseDistanceM: number;
+  distanceUnitM: number;
+  timeUnitSec: number;
+  unitFareKrw: number;
+  slowSpeedKmh: number;
+  nightSurcharges: NightSurcharge[];
+  suburbMultiplier: number;
+}
+
+// Approximate mid-size taxi tariffs (2023 revision). Hours are KST and a
+// window may wrap past midnight (startHour > endHour).
+export const TAXI_TARIFFS: Record<TaxiRegion, TaxiTariff> = {
+  seoul: {
+    region: "seoul",
+    baseFareKrw: 4800,
+    baseDistanceM: 1600,
+    distanceUnitM: 131,
+    timeUnitSec: 30,
+    unitFareKrw: 100,
+    slowSpeedKmh: 15,
+    nightSurcharges: [
+      { startHour: 23, endHour: 2, rate: 0.4 },
+      { startHour: 22, endHour: 23, rate: 0.2 },
+      { startHour: 2, endHour: 4, rate: 0.2 },
+    ],
+    suburbMultiplier: 1.2,
+  },
+  gyeonggi: {
+    region: "gyeonggi",
+    baseFareKrw: 4800,
+    baseDistanceM: 1600,
+    distanceUnitM: 131,
+    timeUnitSec: 31,
+    unitFareKrw: 100,
+    slowSpeedKmh: 15,
+    nightSurcharges: [{ startHour: 22, endHour: 4, rate: 0.2 }],
+    suburbMultiplier: 1.2,
+  },
+  incheon: {
+    region: "incheon",
+    baseFareKrw: 4800,
+    baseDistanceM: 1600,
+    distanceUnitM: 135,
+    timeUnitSec: 33,
+    unitFareKrw: 100,
+    slowSpeedKmh: 15,
+    nightSurcharges: [{ startHour: 0, endHour: 4, rate: 0.2 }],
+    suburbMultiplier: 1.2,
+  },
+};
+
+export interface PickupWait {
+  medianMin: number;
+  p90Min: number;
+}
+
+export interface TaxiProductSpec {
+  product: TaxiProduct;
+  // Replaces the regional base fare; null keeps it.
+  baseFareKrw: number | null;
+  // Applied to the distance and time ticks after the base fare.
+  fareMultiplier: number;
+  callFeeKrw: number;
+  // Passengers per taxi; larger parties need more than one.
+  capacity: number;
+  pickupWait: PickupWait;
+}
+
+// Approximate app-hail products. Deluxe and large taxis are fewer, so they
+// take longer to arrive and the wait varies more.
+export const TAXI_PRODUCTS: Record<TaxiProduct, TaxiProductSpec> = {
+  regular: {
+    product: "regular",
+    baseFareKrw: null,
+    fareMultiplier: 1,
+    callFeeKrw: 0,
+    capacity: 4,
+    pickupWait: { medianMin: 2, p90Min: 5 },
+  },
+  deluxe: {
+    product: "deluxe",
+    baseFareKrw: 7000,
+    fareMultiplier: 1.5,
+    callFeeKrw: 2000,
+    capacity: 4,
+    pickupWait: { medianMin: 5, p90Min: 12 },
+  },
+  large: {
+    product: "large",
+    baseFareKrw: 7000,
+    fareMultiplier: 1.5,
+    callFeeKrw: 3000,
+    capacity: 8,
+    pickupWait: { medianMin: 7, p90Min: 15 },
+  },
+};
+
+const SEOUL_BOUNDS = {
+  minLat: 37.413,
+  maxLat: 37.715,
+  minLng: 126.764,
+  maxLng: 127.184,
+};
+const INCHEON_BOUNDS = {
+  minLat: 37.35,
+  maxLat: 37.8,
+  minLng: 126.35,
+  maxLng: 126.8,
+};
+
+function within(
+  bounds: { minLat: number; maxLat: number; minLng: number; maxLng: number },
+  lat: number,
+  lng: number
+): boolean {
+  return (
+    lat >= bounds.minLat &&
+    lat <= bounds.maxLat &&
+    lng >= bounds.minLng &&
+    lng <= bounds.maxLng
+  );
+}
+
+export function detectTaxiRegion(lat: number, lng: number): TaxiRegion {
+  if (within(SEOUL_BOUNDS, lat, lng)) return "seoul";
+  if (within(INCHEON_BOUNDS, lat, lng)) return "incheon";
+  return "gyeonggi";
+}
+
+function kstHour(time: Date): number {
+  return (time.getUTCHours() + 9) % 24;
+}
+
+function inHourWindow(hour: number, window: NightSurcharge): boolean {
+  if (window.startHour <= window.endHour) {
+    return hour >= window.startHour && hour < window.endHour;
+  }
+  return hour >= window.startHour || hour < window.endHour;
+}
+
+export function nightSurchargeRate(tariff: TaxiTariff, time: Date): number {
+  const hour = kstHour(time);
+  return tariff.nightSurcharges
+    .filter((w) => inHourWindow(hour, w))
+    .reduce((max, w) => Math.max(max, w.rate), 0);
+}
+
+export function surchargedBaseFare(
+  region: TaxiRegion,
+  surchargeRate: number,
+  product: TaxiProduct = "regular"
+): number {
+  const baseFare =
+    TAXI_PRODUCTS[product].baseFareKrw ?? TAXI_TARIFFS[region].baseFareKrw;
+  return Math.round(baseFare * (1 + surchargeRate));
+}
+
+export interface TaxiFareInput {
+  distanceM: number;
+  durationSec: number;
+  departureTime: Date;
+  originRegion: TaxiRegion;
+  destinationRegion: TaxiRegion;
+  product?: TaxiProduct;
+}
+
+export interface TaxiFareEstimate {
+  fareKrw: number;
+  region: TaxiRegion;
+  nightSurchargeRate: number;
+  suburb: boolean;
+}
+
+export interface TaxiFareCalculator {
+  estimate(input: TaxiFareInput): TaxiFareEstimate;
+}
+
+export const meteredTaxiFareCalculator: TaxiFareCalculator = {
+  estimate({
+    distanceM,
+    durationSec,
+    departureTime,
+    originRegion,
+    destinationRegion,
+    product = "regular",
+  }) {
+    const tariff = TAXI_TARIFFS[originRegion];
+    const spec = TAXI_PRODUCTS[product];
+
+    // Kakao only gives totals, so time ticks are approximated by the time
+    // spent beyond what the distance would take at the slow-speed threshold.
+    const slowSpeedMPerSec = (tariff.slowSpeedKmh * 1000) / 3600;
+    const slowSec = Math.max(0, durationSec - distanceM / slowSpeedMPerSec);
+    const distanceTicks = Math.ceil(
+      Math.max(0, distanceM - tariff.baseDistanceM) / tariff.distanceUnitM
+    );
+    const timeTicks = Math.floor(slowSec / tariff.timeUnitSec);
+    const meteredFare =
+      (spec.baseFareKrw ?? tariff.baseFareKrw) +
+      (distanceTicks + timeTicks) * tariff.unitFareKrw * spec.fareMultiplier;
+
+    const surchargeRate = nightSurchargeRate(tariff, departureTime);
+    const suburb = originRegion !== destinationRegion;
+    const multiplier =
+      (1 + surchargeRate) * (suburb ? tariff.suburbMultiplier : 1);
+
+    return {
+      fareKrw: Math.round((meteredFare * multiplier) / 100) * 100,
+      region: originRegion,
+      nightSurchargeRate: surchargeRate,
+      suburb,
+    };
+  },
+};
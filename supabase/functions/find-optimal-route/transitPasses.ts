@@ -0,0 +1,71 @@
+import { GeoPoint, TransitPass } from "../_shared/routeContract.ts";
+import { detectTaxiRegion } from "./taxiFare.ts";
+
+export interface FareRide {
+  mode: "BUS" | "SUBWAY";
+  route?: string;
+  operator?: string;
+  routeType?: number;
+  start?: GeoPoint;
+  end?: GeoPoint;
+}
+
+interface PassCoverageRule {
+  mode: FareRide["mode"];
+  // Matched against the route name, "간선:470" or "수도권2호선".
+  routes: RegExp;
+  excludeRoutes?: RegExp;
+  // GTFS feeds name buses by number alone, so rides that know their
+  // operator are matched on it instead, leaving out the extended route
+  // types of express services.
+  operators?: RegExp;
+  excludeRouteTypes?: number[];
+  // Both ends of the ride must be in Seoul, when the source gives them.
+  withinSeoul: boolean;
+}
+
+// 기후동행카드: Seoul city and village buses and the subway inside Seoul.
+// Red express buses, airport buses, buses from Gyeonggi and Incheon and the
+// privately run Sinbundang line are not covered.
+const TRANSIT_PASS_RULES: Record<TransitPass, PassCoverageRule[]> = {
+  "climate-card": [
+    {
+      mode: "BUS",
+      routes: /^(간선|지선|순환|마을|심야)/,
+      operators: /서울/,
+      // 702 Express Bus Service: red and airport buses.
+      excludeRouteTypes: [702],
+      withinSeoul: true,
+    },
+    {
+      mode: "SUBWAY",
+      routes: /호선|경의|중앙|경춘|수인|분당|공항철도|우이신설|신림|서해/,
+      excludeRoutes: /신분당/,
+      withinSeoul: true,
+    },
+  ],
+};
+
+function inSeoul(point: GeoPoint | undefined): boolean {
+  return !point || detectTaxiRegion(point.lat, point.lng) === "seoul";
+}
+
+function matchesRoute(rule: PassCoverageRule, ride: FareRide): boolean {
+  if (rule.operators && ride.operator !== undefined) {
+    return (
+      rule.operators.test(ride.operator) &&
+      !rule.excludeRouteTypes?.includes(ride.routeType ?? -1)
+    );
+  }
+  const route = ride.route ?? "";
+  return rule.routes.test(route) && !rule.excludeRoutes?.test(route);
+}
+
+export function passCovers(pass: TransitPass, ride: FareRide): boolean {
+  return TRANSIT_PASS_RULES[pass].some(
+    (rule) =>
+      rule.mode === ride.mode &&
+      matchesRoute(rule, ride) &&
+      (!rule.withinSeoul || (inSeoul(ride.start) && inSeoul(ride.end)))
+  );
+}
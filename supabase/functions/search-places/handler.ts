@@ -0,0 +1,186 @@
+import {
+  buildCacheKey,
+  CACHE_TTL_SEC,
+  createApiCache,
+} from "../_shared/apiCache.ts";
+import { calculateDistance } from "../_shared/geo.ts";
+import {
+  PlaceResult,
+  PlaceSearchErrorCode,
+  PlaceSearchErrorResponse,
+  PlaceSearchRequest,
+  PlaceSearchResponse,
+  validatePlaceSearchRequest,
+} from "../_shared/placeContract.ts";
+import { GeoPoint } from "../_shared/routeContract.ts";
+import { callerKey, createTokenBucketLimiter } from "../_shared/rateLimit.ts";
+import { reverseGeocode, searchKeyword } from "./kakao.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "POST, OPTIONS",
+  "Access-Control-Allow-Headers":
+    "Content-Type, Authorization, X-Client-Info, Apikey",
+  "Access-Control-Expose-Headers": "Retry-After",
+};
+
+// Each kilometre away from the bias point costs a result this many places in
+// Kakao's relevance order, so a nearby branch beats a slightly better-matching
+// one across the city without burying exact matches far away.
+const RANKS_PER_KM = 0.5;
+// Bias points are snapped to roughly a kilometre so that nearby users share
+// cache entries; reverse geocodes to roughly ten metres.
+const NEAR_CACHE_PRECISION = 100;
+const AT_CACHE_PRECISION = 10000;
+
+// Typeahead fires a search every few keystrokes, so the bucket is far larger
+// than the route search one.
+const placeLimiter = createTokenBucketLimiter({
+  capacity: 30,
+  refillPerSec: 2,
+});
+
+function snap(point: GeoPoint, precision: number): GeoPoint {
+  return {
+    lat: Math.round(point.lat * precision) / precision,
+    lng: Math.round(point.lng * precision) / precision,
+  };
+}
+
+export function biasByProximity(
+  places: PlaceResult[],
+  near: GeoPoint
+): PlaceResult[] {
+  return places
+    .map((place, rank) => {
+      const distanceM = Math.round(
+        calculateDistance(near.lat, near.lng, place.lat, place.lng)
+      );
+      return {
+        place: { ...place, distanceM },
+        score: rank + (distanceM / 1000) * RANKS_PER_KM,
+      };
+    })
+    .sort((a, b) => a.score - b.score)
+    .map(({ place }) => place);
+}
+
+async function searchPlaces(
+  req: PlaceSearchRequest
+): Promise<PlaceResult[] | null> {
+  const cache = createApiCache();
+
+  if (req.at) {
+    const at = snap(req.at, AT_CACHE_PRECISION);
+    const places = await cache.wrap(
+      buildCacheKey("kakao:coord2address", { x: at.lng, y: at.lat }),
+      CACHE_TTL_SEC.reverseGeocode,
+      () => reverseGeocode(at)
+    );
+    // Report the caller's own coordinates, not the snapped cache key.
+    return (
+      places?.map((place) => ({
+        ...place,
+        lat: req.at!.lat,
+        lng: req.at!.lng,
+      })) ?? null
+    );
+  }
+
+  const query = (req.query ?? "").trim();
+  const near = req.near && snap(req.near, NEAR_CACHE_PRECISION);
+  const places = await cache.wrap(
+    buildCacheKey("kakao:place-keyword", {
+      query: query.toLowerCase(),
+      x: near?.lng,
+      y: near?.lat,
+    }),
+    CACHE_TTL_SEC.placeSearch,
+    () => searchKeyword(query, near)
+  );
+  return places && req.near ? biasByProximity(places, req.near) : places;
+}
+
+function errorResponse(
+  status: number,
+  code: PlaceSearchErrorCode,
+  message: string,
+  extra: Pick<PlaceSearchErrorResponse, "path" | "retryAfterSec"> = {}
+): Response {
+  const body: PlaceSearchErrorResponse = {
+    success: false,
+    error: code,
+    message,
+    ...extra,
+  };
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: {
+      ...corsHeaders,
+      "Content-Type": "application/json",
+      ...(extra.retryAfterSec !== undefined && {
+        "Retry-After": String(extra.retryAfterSec),
+      }),
+    },
+  });
+}
+
+export async function handleRequest(
+  req: Request,
+  info?: Deno.ServeHandlerInfo
+): Promise<Response> {
+  if (req.method === "OPTIONS") {
+    return new Response(null, {
+      status: 200,
+      headers: corsHeaders,
+    });
+  }
+
+  let payload: unknown;
+  try {
+    payload = await req.json();
+  } catch {
+    return errorResponse(400, "INVALID_BODY", "Request body must be JSON");
+  }
+
+  try {
+    const validation = validatePlaceSearchRequest(payload);
+    if (!validation.ok) {
+      return errorResponse(400, validation.code, validation.message, {
+        path: validation.path,
+      });
+    }
+
+    const body = validation.request;
+    const decision = placeLimiter.take(callerKey(req, info));
+    if (!decision.allowed) {
+      return errorResponse(429, "RATE_LIMITED", "Too many place searches", {
+        retryAfterSec: decision.retryAfterSec,
+      });
+    }
+
+    const places = await searchPlaces(body);
+    if (!places) {
+      return errorResponse(
+        502,
+        "UPSTREAM_UNAVAILABLE",
+        "Place search provider did not respond"
+      );
+    }
+
+    const result: PlaceSearchResponse = { success: true, places };
+    return new Response(JSON.stringify(result), {
+      headers: {
+        ...corsHeaders,
+        "Content-Type": "application/json",
+      },
+    });
+  } catch (error) {
+    console.error("Function error:", error);
+    return errorResponse(
+      500,
+      "INTERNAL_ERROR",
+      error instanceof Error ? error.message : "Unknown error"
+    );
+  }
+}
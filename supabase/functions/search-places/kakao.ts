@@ -0,0 +1,101 @@
+import { PlaceResult } from "../_shared/placeContract.ts";
+import { GeoPoint } from "../_shared/routeContract.ts";
+
+const KAKAO_REST_API_KEY = Deno.env.get("KAKAO_REST_API_KEY") || "";
+const KAKAO_LOCAL_BASE_URL =
+  Deno.env.get("KAKAO_LOCAL_BASE_URL") || "https://dapi.kakao.com";
+const UPSTREAM_TIMEOUT_MS = Number(Deno.env.get("UPSTREAM_TIMEOUT_MS")) || 5000;
+const KEYWORD_PAGE_SIZE = 15;
+
+interface KakaoKeywordDocument {
+  place_name: string;
+  address_name: string;
+  road_address_name?: string;
+  x: string;
+  y: string;
+}
+
+interface KakaoCoord2AddressDocument {
+  address?: { address_name: string } | null;
+  road_address?: { address_name: string; building_name?: string } | null;
+}
+
+// Null means Kakao failed, as opposed to an empty list of matches.
+async function requestKakaoLocal<T>(
+  path: string,
+  params: Record<string, string>
+): Promise<T[] | null> {
+  if (!KAKAO_REST_API_KEY) {
+    console.error("KAKAO_REST_API_KEY not set");
+    return null;
+  }
+
+  try {
+    const url = `${KAKAO_LOCAL_BASE_URL}${path}?${new URLSearchParams(params)}`;
+    const response = await fetch(url, {
+      signal: AbortSignal.timeout(UPSTREAM_TIMEOUT_MS),
+      headers: { Authorization: `KakaoAK ${KAKAO_REST_API_KEY}` },
+    });
+
+    if (!response.ok) {
+      console.error(
+        `Kakao ${path} error status:`,
+        response.status,
+        await response.text()
+      );
+      return null;
+    }
+
+    const data = await response.json();
+    return Array.isArray(data?.documents) ? data.documents : [];
+  } catch (error) {
+    console.error(`Kakao ${path} error:`, error);
+    return null;
+  }
+}
+
+export async function searchKeyword(
+  query: string,
+  near?: GeoPoint
+): Promise<PlaceResult[] | null> {
+  const documents = await requestKakaoLocal<KakaoKeywordDocument>(
+    "/v2/local/search/keyword.json",
+    {
+      query,
+      size: String(KEYWORD_PAGE_SIZE),
+      ...(near && { x: String(near.lng), y: String(near.lat) }),
+    }
+  );
+
+  return (
+    documents?.map((doc) => ({
+      name: doc.place_name,
+      address: doc.road_address_name || doc.address_name,
+      lat: parseFloat(doc.y),
+      lng: parseFloat(doc.x),
+    })) ?? null
+  );
+}
+
+export async function reverseGeocode(
+  at: GeoPoint
+): Promise<PlaceResult[] | null> {
+  const documents = await requestKakaoLocal<KakaoCoord2AddressDocument>(
+    "/v2/local/geo/coord2address.json",
+    { x: String(at.lng), y: String(at.lat) }
+  );
+  if (!documents) return null;
+
+  return documents.flatMap((doc) => {
+    const address = doc.road_address?.address_name || doc.address?.address_name;
+    if (!address) return [];
+    return [
+      {
+        name: doc.road_address?.building_name || address,
+        address,
+        lat: at.lat,
+        lng: at.lng,
+      },
+    ];
+  });
+}
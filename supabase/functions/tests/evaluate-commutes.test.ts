@@ -0,0 +1,152 @@
+import { assertEquals } from "jsr:@std/assert@1";
+import type {
+  RouteCandidate,
+  RouteResponse,
+} from "../_shared/routeContract.ts";
+
+Deno.env.delete("SUPABASE_URL");
+Deno.env.delete("SUPABASE_SERVICE_ROLE_KEY");
+
+const { commuteRequest, isDue, summarizeCommute } = await import(
+  "../evaluate-commutes/handler.ts"
+);
+
+const HOME = { name: "집", lat: 37.4985, lng: 127.0281 };
+const OFFICE = { name: "회사", lat: 37.5752, lng: 126.9754 };
+
+const weekdayDeparture = {
+  id: "preset",
+  client_id: "client",
+  label: "출근",
+  request: {
+    origin: HOME,
+    destination: OFFICE,
+    maxTimeMin: 50,
+    maxWalkMin: 15,
+  },
+  time_mode: "depart" as const,
+  time_of_day: "08:10:00",
+  weekdays: [1, 2, 3, 4, 5],
+};
+
+function route(overrides: Partial<RouteCandidate>): RouteCandidate {
+  return {
+    id: "route",
+    type: "transit-only",
+    totalTimeMin: 40,
+    totalCostKrw: 1550,
+    walkTimeMin: 8,
+    hasTaxi: false,
+    legs: [],
+    slackMin: 10,
+    isFeasible: true,
+    ...overrides,
+  };
+}
+
+function response(
+  routes: RouteCandidate[],
+  taxiOnly?: RouteCandidate
+): RouteResponse {
+  return {
+    success: true,
+    routes,
+    count: routes.length,
+    noFeasibleRoute: false,
+    minPossibleTimeMin: null,
+    minPossibleWalkMin: null,
+    constraints: { maxTimeMin: 50, maxWalkMin: 15 },
+    taxiOnly,
+    afterLastServiceCount: 0,
+  };
+}
+
+Deno.test("isDue opens 45 minutes before the commute starts", () => {
+  // Wednesday 2025-03-12.
+  const at = (time: string) => new Date(`2025-03-12T${time}:00+09:00`);
+  assertEquals(isDue(weekdayDeparture, at("07:20")), false);
+  assertEquals(isDue(weekdayDeparture, at("07:25")), true);
+  assertEquals(isDue(weekdayDeparture, at("08:09")), true);
+  assertEquals(isDue(weekdayDeparture, at("08:10")), false);
+
+  // Arrive-by presets start the time budget earlier.
+  const arriveBy = { ...weekdayDeparture, time_mode: "arrive" as const };
+  assertEquals(isDue(arriveBy, at("06:35")), true);
+  assertEquals(isDue(arriveBy, at("07:20")), false);
+
+  // Sunday.
+  assertEquals(
+    isDue(weekdayDeparture, new Date("2025-03-16T07:30:00+09:00")),
+    false
+  );
+});
+
+Deno.test("arrive-by presets search within their time limit", () => {
+  const arriveBy = {
+    ...weekdayDeparture,
+    time_mode: "arrive" as const,
+    time_of_day: "09:00:00",
+  };
+  const request = commuteRequest(
+    arriveBy,
+    new Date("2025-03-12T07:40:00+09:00")
+  );
+  assertEquals(request.arriveBy, "2025-03-12T09:00:00+09:00");
+  assertEquals(request.departureTime, "2025-03-11T23:10:00.000Z");
+  assertEquals(request.maxTimeMin, 50);
+});
+
+Deno.test(
+  "summarizeCommute compares a taxi mix with the taxi-only fare",
+  () => {
+    const taxiSubway = route({
+      type: "taxi-transit",
+      totalCostKrw: 6800,
+      hasTaxi: true,
+      leaveBy: "2025-03-12T07:58:00+09:00",
+      legs: [
+        {
+          type: "taxi",
+          from: "집",
+          to: "강남역",
+          durationMin: 8,
+          costKrw: 5250,
+        },
+        {
+          type: "transit",
+          from: "강남역",
+          to: "회사",
+          durationMin: 30,
+          costKrw: 1550,
+          details: { subwayCount: 1, busCount: 0 },
+        },
+      ],
+    });
+    const taxiOnly = route({ type: "taxi-only", totalCostKrw: 10000 });
+
+    assertEquals(summarizeCommute(response([taxiSubway], taxiOnly)), {
+      headline: "오늘은 택시+지하철이 3,200원 더 싸요",
+      leaveBy: "2025-03-12T07:58:00+09:00",
+      routeType: "taxi-transit",
+      totalCostKrw: 6800,
+      savingsKrw: 3200,
+    });
+
+    const bus = route({
+      legs: [
+        {
+          type: "transit",
+          from: "집",
+          to: "회사",
+          durationMin: 40,
+          costKrw: 1500,
+          details: { subwayCount: 0, busCount: 1 },
+        },
+      ],
+    });
+    assertEquals(
+      summarizeCommute(response([bus], taxiOnly)).headline,
+      "오늘은 버스가 가장 좋아요"
+    );
+  }
+);
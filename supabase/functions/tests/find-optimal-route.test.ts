@@ -0,0 +1,736 @@
+import { assert, assertEquals } from "jsr:@std/assert@1";
+import { loadFixture, startMockUpstream } from "./mockUpstream.ts";
+import { mapWithConcurrency } from "../_shared/concurrency.ts";
+import {
+  type RouteCandidate,
+  type RouteRequest,
+  type RouteResponse,
+  type TaxiDetails,
+  type TransitDetails,
+  validateRouteRequest,
+} from "../_shared/routeContract.ts";
+import {
+  hasStepFreeAccess,
+  loadStepFreeStations,
+  stepFreeAccess,
+  walkingProfile,
+} from "../find-optimal-route/accessibility.ts";
+import {
+  priceTransitFare,
+  type PricedRide,
+} from "../find-optimal-route/groupFares.ts";
+import { toKstMinuteStamp } from "../find-optimal-route/serviceHours.ts";
+
+// The handler reads its configuration at import time, so the mock must be up
+// and the environment pointed at it before the dynamic import below.
+const mock = startMockUpstream();
+Deno.env.set("TMAP_BASE_URL", mock.baseUrl);
+Deno.env.set("KAKAO_LOCAL_BASE_URL", mock.baseUrl);
+Deno.env.set("KAKAO_MOBILITY_BASE_URL", mock.baseUrl);
+Deno.env.set("TMAP_API_KEY", "test-tmap-key");
+Deno.env.set("KAKAO_REST_API_KEY", "test-kakao-key");
+Deno.env.set(
+  "GTFS_FEED_URL",
+  new URL("./fixtures/gtfs/", import.meta.url).href
+);
+Deno.env.delete("SUPABASE_URL");
+Deno.env.delete("SUPABASE_SERVICE_ROLE_KEY");
+
+const {
+  computePoiRadius,
+  estimateWalkTimeMin,
+  findOptimalRoute,
+  handleRequest,
+  screenStationsByEta,
+  summarizeItinerary,
+} = await import("../find-optimal-route/handler.ts");
+
+const UPDATE_GOLDEN = Deno.env.get("UPDATE_GOLDEN") === "1";
+
+async function assertGolden(name: string, actual: unknown) {
+  const url = new URL(`./golden/${name}.json`, import.meta.url);
+  const serialized = JSON.stringify(actual, null, 2) + "\n";
+  if (UPDATE_GOLDEN) {
+    await Deno.writeTextFile(url, serialized);
+    return;
+  }
+  const expected = JSON.parse(await Deno.readTextFile(url));
+  assertEquals(JSON.parse(serialized), expected);
+}
+
+function transitOnly(result: RouteResponse): RouteCandidate {
+  return [...result.routes, result.taxiOnly!].find(
+    (route) => route.type === "transit-only"
+  )!;
+}
+
+// Searches are limited per caller address, so each step calls from its own.
+function postRoute(body: unknown, caller: string): Request {
+  return new Request("http://localhost/find-optimal-route", {
+    method: "POST",
+    headers: { "Content-Type": "application/json", "X-Forwarded-For": caller },
+    body: JSON.stringify(body),
+  });
+}
+
+// 08:30 KST on a weekday, far enough from "now" that every taxi fare comes
+// from the metered estimate rather than Kakao's live quote.
+const MORNING = "2025-03-12T08:30:00+09:00";
+
+const GANGNAM_EXIT_11 = {
+  name: "강남역 11번 출구",
+  lat: 37.4985,
+  lng: 127.0281,
+};
+const GOVERNMENT_COMPLEX = {
+  name: "정부서울청사",
+  lat: 37.5752,
+  lng: 126.9754,
+};
+const CITY_HALL = { name: "시청역", lat: 37.5657, lng: 126.9769 };
+const GWANGHWAMUN = { name: "광화문역", lat: 37.571, lng: 126.9768 };
+
+const gangnamToGwanghwamun: RouteRequest = {
+  origin: GANGNAM_EXIT_11,
+  destination: GOVERNMENT_COMPLEX,
+  maxTimeMin: 60,
+  maxWalkMin: 20,
+  departureTime: MORNING,
+  debug: true,
+};
+
+Deno.test("validateRouteRequest builds the request from checked fields", () => {
+  const validation = validateRouteRequest(
+    {
+      origin: { ...GANGNAM_EXIT_11, address: "서울 강남구" },
+      destination: GOVERNMENT_COMPLEX,
+      maxWalkMin: 20,
+      arriveBy: "2025-03-12T09:20:00+09:00",
+      scoring: { walkPenaltyKrwPerMin: 300 },
+      unknownField: true,
+    },
+    new Date("2025-03-12T08:00:00+09:00")
+  );
+  assert(validation.ok);
+  assertEquals(validation.request, {
+    origin: GANGNAM_EXIT_11,
+    destination: GOVERNMENT_COMPLEX,
+    maxWalkMin: 20,
+    arriveBy: "2025-03-12T09:20:00+09:00",
+    scoring: { walkPenaltyKrwPerMin: 300 },
+  });
+});
+
+Deno.test("taxiMaxSegments must be a whole number of taxis", () => {
+  const validation = validateRouteRequest({
+    ...gangnamToGwanghwamun,
+    taxiMaxSegments: 1.5,
+  });
+  assert(!validation.ok);
+  assertEquals(validation.issues, [
+    {
+      code: "INVALID_FIELD",
+      path: "taxiMaxSegments",
+      message: "must be a whole number between 1 and 2",
+    },
+  ]);
+});
+
+Deno.test("estimateWalkTimeMin adds transfer walking per vehicle", () => {
+  assertEquals(estimateWalkTimeMin(0), 0);
+  assertEquals(estimateWalkTimeMin(700), 10);
+  assertEquals(estimateWalkTimeMin(701, 2, 1), 11 + 6 + 1);
+});
+
+Deno.test("accessibility profiles slow walking and pad transfers", async () => {
+  await loadStepFreeStations();
+  const stroller = walkingProfile({
+    walkSpeedMPerMin: 35,
+    extraTransferMin: 2,
+  });
+  assertEquals(estimateWalkTimeMin(700, 0, 0, stroller), 20);
+  assertEquals(estimateWalkTimeMin(700, 2, 1, stroller), 20 + 10 + 3);
+  assertEquals(computePoiRadius(20), 1680);
+  assertEquals(computePoiRadius(20, stroller), 840);
+
+  const itinerary = {
+    totalTimeSec: 1800,
+    fareKrw: 1550,
+    segments: [
+      {
+        mode: "WALK" as const,
+        durationSec: 300,
+        distanceM: 350,
+        fromName: "출발지",
+        toName: "신당",
+        stationCount: 0,
+      },
+      {
+        mode: "SUBWAY" as const,
+        durationSec: 1500,
+        distanceM: 9000,
+        fromName: "신당",
+        toName: "을지로입구",
+        route: "수도권2호선",
+        stationCount: 5,
+      },
+    ],
+  };
+  const start = new Date(MORNING);
+  const summary = summarizeItinerary(itinerary, start, stroller);
+  assertEquals(summary.timeMin, 30 + 5 + 2);
+  assertEquals(
+    summary.steps.map((step) => step.duration),
+    [600, 1500]
+  );
+  assertEquals(summary.steps[1].lacksStepFreeAccess, undefined);
+
+  const wheelchair = walkingProfile({ stepFreeOnly: true });
+  const stepFree = summarizeItinerary(itinerary, start, wheelchair);
+  assertEquals(stepFree.timeMin, 30);
+  assertEquals(stepFree.steps[1].lacksStepFreeAccess, true);
+  assertEquals(stepFree.steps[1].stepFreeAccessUnknown, undefined);
+
+  const unrated = summarizeItinerary(
+    {
+      ...itinerary,
+      segments: [
+        { ...itinerary.segments[0], toName: "강남" },
+        { ...itinerary.segments[1], fromName: "강남", toName: "교대" },
+      ],
+    },
+    start,
+    wheelchair
+  );
+  assertEquals(unrated.steps[1].lacksStepFreeAccess, undefined);
+  assertEquals(unrated.steps[1].stepFreeAccessUnknown, true);
+});
+
+const LINE_2: PricedRide = {
+  mode: "SUBWAY",
+  route: "수도권2호선",
+  distanceM: 6000,
+};
+const BUS_470: PricedRide = { mode: "BUS", route: "간선:470", distanceM: 2000 };
+
+Deno.test("priceTransitFare discounts each ride by category", () => {
+  const fare = (category: "adult" | "youth" | "child" | "senior") =>
+    priceTransitFare(1550, [LINE_2], [{ category }]).costKrw;
+  assertEquals(fare("adult"), 1550);
+  assertEquals(fare("youth"), 900);
+  assertEquals(fare("child"), 550);
+  assertEquals(fare("senior"), 0);
+
+  const senior = priceTransitFare(
+    1600,
+    [LINE_2, BUS_470],
+    [{ category: "senior" }]
+  );
+  assertEquals(senior.costKrw, 400);
+  assertEquals(senior.searcherFares, [
+    { baseKrw: 1200, paidKrw: 0, discount: "senior" },
+    { baseKrw: 400, paidKrw: 400, discount: "senior" },
+  ]);
+
+  const family = priceTransitFare(
+    1550,
+    [LINE_2],
+    [
+      { category: "adult" },
+      { category: "adult" },
+      { category: "youth" },
+      { category: "child" },
+    ]
+  );
+  assertEquals(family.costKrw, 4550);
+});
+
+Deno.test("the climate card covers Seoul buses and subway lines", () => {
+  const pass = [{ category: "adult" as const, pass: "climate-card" as const }];
+  assertEquals(priceTransitFare(1600, [LINE_2, BUS_470], pass).costKrw, 0);
+
+  const sinbundang = priceTransitFare(
+    1600,
+    [LINE_2, { mode: "SUBWAY", route: "신분당선", distanceM: 2000 }],
+    pass
+  );
+  assertEquals(sinbundang.costKrw, 400);
+  assertEquals(sinbundang.searcherFares[0].discount, "climate-card");
+  assertEquals(sinbundang.searcherFares[1].discount, undefined);
+
+  const redBus = { mode: "BUS" as const, route: "광역:9401", distanceM: 2000 };
+  assertEquals(priceTransitFare(2800, [redBus], pass).costKrw, 2800);
+
+  const intoIncheon = {
+    ...LINE_2,
+    route: "수도권1호선",
+    end: { lat: 37.4765, lng: 126.6168 },
+  };
+  assertEquals(priceTransitFare(2000, [intoIncheon], pass).costKrw, 2000);
+});
+
+Deno.test("the climate card goes by operator for GTFS buses", () => {
+  const pass = [{ category: "adult" as const, pass: "climate-card" as const }];
+  const gtfsBus = (operator: string, routeType = 3): PricedRide => ({
+    mode: "BUS",
+    route: "470",
+    operator,
+    routeType,
+    distanceM: 2000,
+  });
+
+  assertEquals(
+    priceTransitFare(1500, [gtfsBus("서울특별시")], pass).costKrw,
+    0
+  );
+  assertEquals(
+    priceTransitFare(2800, [gtfsBus("서울특별시", 702)], pass).costKrw,
+    2800
+  );
+  assertEquals(priceTransitFare(1500, [gtfsBus("경기도")], pass).costKrw, 1500);
+});
+
+Deno.test("step-free access comes from the GTFS stops", async () => {
+  await loadStepFreeStations();
+  assert(hasStepFreeAccess("강남역 2호선"));
+  assert(!hasStepFreeAccess("신당역 2호선"));
+  assert(!hasStepFreeAccess("신당역(6호선)"));
+  assert(!hasStepFreeAccess("신당"));
+  assertEquals(stepFreeAccess("신당역 2호선"), "stairs");
+  // Stations the feed doesn't rate are not assumed to be step-free.
+  assertEquals(stepFreeAccess("교대역"), "unknown");
+  assertEquals(stepFreeAccess("을지로입구역"), "unknown");
+  assert(!hasStepFreeAccess("교대"));
+});
+
+Deno.test("mapWithConcurrency stops at the deadline", async () => {
+  const started: number[] = [];
+  const aborted: number[] = [];
+  const { results, timedOut } = await mapWithConcurrency(
+    [1, 2, 3, 4],
+    2,
+    (item, signal) => {
+      started.push(item);
+      return new Promise<number>((resolve) => {
+        if (item === 1) return resolve(item);
+        signal.addEventListener("abort", () => {
+          aborted.push(item);
+          resolve(item);
+        });
+      });
+    },
+    Date.now() + 50
+  );
+  await new Promise((resolve) => setTimeout(resolve, 0));
+
+  assert(timedOut);
+  assertEquals(results, [1]);
+  // Items 2 and 3 were running and got the abort; 4 never started.
+  assertEquals(started, [1, 2, 3]);
+  assertEquals(aborted, [2, 3]);
+});
+
+Deno.test("screenStationsByEta keeps stations inside the window", () => {
+  const stations = ["a", "b", "c", "d"].map((id) => ({
+    id,
+    name: id,
+    lat: 37.5,
+    lng: 127,
+  }));
+
+  const screened = screenStationsByEta(
+    stations,
+    [5 * 60, 6 * 60, 9 * 60, null],
+    [6, 9]
+  );
+  assertEquals(
+    screened.map((s) => s.id),
+    ["b", "c"]
+  );
+});
+
+Deno.test({
+  name: "findOptimalRoute against recorded upstream fixtures",
+  sanitizeOps: false,
+  sanitizeResources: false,
+  async fn(t) {
+    try {
+      await t.step("walk-only shortcut skips every upstream call", async () => {
+        mock.load({ entries: [] });
+        const result = await findOptimalRoute({
+          origin: CITY_HALL,
+          destination: GWANGHWAMUN,
+          maxTimeMin: 30,
+          maxWalkMin: 15,
+          departureTime: MORNING,
+        });
+        assertEquals(mock.calls, []);
+        await assertGolden("cityhall-to-gwanghwamun-walk", result);
+      });
+
+      const gangnam = await loadFixture("gangnam-to-gwanghwamun");
+
+      await t.step("Gangnam to Gwanghwamun with one taxi segment", async () => {
+        mock.load(gangnam);
+        const result = await findOptimalRoute(gangnamToGwanghwamun);
+        assertEquals(result.noFeasibleRoute, false);
+        await assertGolden("gangnam-to-gwanghwamun", result);
+      });
+
+      await t.step(
+        "Gangnam to Gwanghwamun with two taxi segments",
+        async () => {
+          mock.load(gangnam);
+          const result = await findOptimalRoute({
+            ...gangnamToGwanghwamun,
+            taxiMaxSegments: 2,
+          });
+          await assertGolden("gangnam-to-gwanghwamun-two-taxis", result);
+        }
+      );
+
+      await t.step("Gangnam to Gwanghwamun arriving by 09:20", async () => {
+        mock.load(gangnam);
+        const result = await findOptimalRoute({
+          ...gangnamToGwanghwamun,
+          arriveBy: "2025-03-12T09:20:00+09:00",
+        });
+        await assertGolden("gangnam-to-gwanghwamun-arrive-by", result);
+      });
+
+      await t.step(
+        "arrive-by is bounded by the deadline, not the time limit",
+        async () => {
+          mock.load(gangnam);
+          const result = await findOptimalRoute({
+            ...gangnamToGwanghwamun,
+            maxTimeMin: 30,
+            departureTime: "2025-03-12T07:00:00+09:00",
+            arriveBy: "2025-03-12T09:20:00+09:00",
+          });
+          assertEquals(result.noFeasibleRoute, false);
+          assertEquals(result.constraints.maxTimeMin, 140);
+        }
+      );
+
+      await t.step(
+        "arrive-by searches each route again from its leave-by time",
+        async () => {
+          mock.load(gangnam);
+          const result = await findOptimalRoute({
+            ...gangnamToGwanghwamun,
+            departureTime: "2025-03-12T07:00:00+09:00",
+            arriveBy: "2025-03-12T09:20:00+09:00",
+          });
+          const transitSearches = mock.calls.filter(
+            (call) =>
+              call.includes("/transit/routes") &&
+              call.includes('"startX":127.0281,') &&
+              call.includes('"endX":126.9754,')
+          );
+          const leaveBy = toKstMinuteStamp(
+            new Date(transitOnly(result).leaveBy!)
+          );
+          assert(transitSearches[0].includes('"searchDttm":"202503120700"'));
+          assert(
+            transitSearches.some((call) =>
+              call.includes(`"searchDttm":"${leaveBy}"`)
+            )
+          );
+        }
+      );
+
+      await t.step(
+        "arrive-by prices taxis at the time the rider leaves",
+        async () => {
+          mock.load(gangnam);
+          const result = await findOptimalRoute({
+            ...gangnamToGwanghwamun,
+            maxTimeMin: 180,
+            departureTime: "2025-03-12T21:00:00+09:00",
+            arriveBy: "2025-03-12T23:30:00+09:00",
+          });
+          const taxi = result.taxiOnly!;
+          const details = taxi.legs[0].details as TaxiDetails;
+          // The ride starts after 22:00 KST, when the night surcharge applies.
+          assert(taxi.leaveBy! >= "2025-03-12T13:00:00.000Z");
+          assert(details.nightSurchargeRate! > 0);
+        }
+      );
+
+      await t.step("a 30 minute limit leaves no feasible route", async () => {
+        mock.load(gangnam);
+        const result = await findOptimalRoute({
+          ...gangnamToGwanghwamun,
+          maxTimeMin: 30,
+        });
+        assertEquals(result.noFeasibleRoute, true);
+        await assertGolden("gangnam-to-gwanghwamun-no-feasible", result);
+      });
+
+      await t.step("a large taxi is priced as its own product", async () => {
+        mock.load(gangnam);
+        const regular = await findOptimalRoute(gangnamToGwanghwamun);
+        mock.load(gangnam);
+        const large = await findOptimalRoute({
+          ...gangnamToGwanghwamun,
+          taxiProduct: "large",
+        });
+
+        const regularTaxi = regular.taxiOnly!.legs[0];
+        const largeTaxi = large.taxiOnly!.legs[0];
+        const details = largeTaxi.details as TaxiDetails;
+        assertEquals(details.product, "large");
+        assertEquals(details.callFee, 3000);
+        assertEquals(largeTaxi.durationMin, regularTaxi.durationMin + 5);
+        assert(
+          details.taxiFare! > (regularTaxi.details as TaxiDetails).taxiFare!
+        );
+        assertEquals(
+          largeTaxi.costKrw,
+          details.taxiFare! + details.tollFare! + 3000
+        );
+      });
+
+      await t.step("a party of five needs two taxis", async () => {
+        mock.load(gangnam);
+        const solo = await findOptimalRoute(gangnamToGwanghwamun);
+        mock.load(gangnam);
+        const party = await findOptimalRoute({
+          ...gangnamToGwanghwamun,
+          passengers: 5,
+          fareCategories: { child: 1 },
+        });
+
+        assertEquals(party.constraints.passengers, 5);
+        const taxi = party.taxiOnly!;
+        assertEquals((taxi.legs[0].details as TaxiDetails).vehicles, 2);
+        assertEquals(taxi.totalCostKrw, solo.taxiOnly!.totalCostKrw * 2);
+        assertEquals(taxi.perPersonCostKrw, Math.round(taxi.totalCostKrw / 5));
+
+        mock.load(gangnam);
+        const child = await findOptimalRoute({
+          ...gangnamToGwanghwamun,
+          fareProfile: { category: "child" },
+        });
+        assertEquals(
+          transitOnly(party).totalCostKrw,
+          transitOnly(solo).totalCostKrw * 4 + transitOnly(child).totalCostKrw
+        );
+      });
+
+      await t.step(
+        "concurrent searches for different parties are not merged",
+        async () => {
+          mock.load(gangnam);
+          const [solo, party] = await Promise.all([
+            handleRequest(postRoute(gangnamToGwanghwamun, "203.0.113.1")),
+            handleRequest(
+              postRoute(
+                {
+                  ...gangnamToGwanghwamun,
+                  passengers: 5,
+                  fareCategories: { child: 1 },
+                },
+                "203.0.113.2"
+              )
+            ),
+          ]);
+          assertEquals(solo.status, 200);
+          assertEquals(party.status, 200);
+          const soloBody: RouteResponse = await solo.json();
+          const partyBody: RouteResponse = await party.json();
+          assertEquals(soloBody.constraints.passengers, undefined);
+          assertEquals(partyBody.constraints.passengers, 5);
+          assertEquals(
+            (partyBody.taxiOnly!.legs[0].details as TaxiDetails).vehicles,
+            2
+          );
+        }
+      );
+
+      await t.step("a climate card makes covered transit free", async () => {
+        mock.load(gangnam);
+        const solo = await findOptimalRoute(gangnamToGwanghwamun);
+        mock.load(gangnam);
+        const card = await findOptimalRoute({
+          ...gangnamToGwanghwamun,
+          fareProfile: { pass: "climate-card" },
+        });
+
+        const transit = transitOnly(card);
+        const details = transit.legs[0].details as TransitDetails;
+        assertEquals(transit.totalCostKrw, 0);
+        assertEquals(details.fareDiscountKrw, transitOnly(solo).totalCostKrw);
+        for (const step of details.steps!) {
+          if (step.mode !== "WALK") {
+            assertEquals(step.fare?.discount, "climate-card");
+          }
+        }
+      });
+
+      await t.step(
+        "a climate card covers GTFS buses by their operator",
+        async () => {
+          mock.load(gangnam);
+          const result = await findOptimalRoute({
+            ...gangnamToGwanghwamun,
+            transitSource: "gtfs",
+            fareProfile: { pass: "climate-card" },
+          });
+
+          const transit = transitOnly(result);
+          const steps = (transit.legs[0].details as TransitDetails).steps!;
+          assert(steps.some((step) => step.mode === "BUS"));
+          for (const step of steps) {
+            if (step.mode !== "WALK") {
+              assertEquals(step.fare?.discount, "climate-card");
+            }
+          }
+          assertEquals(transit.totalCostKrw, 0);
+        }
+      );
+
+      await t.step(
+        "identical concurrent searches share one computation",
+        async () => {
+          mock.load(gangnam);
+          await findOptimalRoute(gangnamToGwanghwamun);
+          const soloCalls = mock.calls.length;
+
+          mock.load(gangnam);
+          const responses = await Promise.all(
+            ["203.0.113.3", "203.0.113.4"].map((caller) =>
+              handleRequest(postRoute(gangnamToGwanghwamun, caller))
+            )
+          );
+          assertEquals(
+            responses.map((response) => response.status),
+            [200, 200]
+          );
+          const [a, b] = await Promise.all(
+            responses.map((response) => response.json())
+          );
+          assertEquals(a, b);
+          assertEquals(mock.calls.length, soloCalls);
+        }
+      );
+
+      await t.step(
+        "a client with a search in flight cannot start another",
+        async () => {
+          mock.load(gangnam);
+          const first = handleRequest(
+            postRoute(gangnamToGwanghwamun, "203.0.113.5")
+          );
+          const second = await handleRequest(
+            postRoute(
+              {
+                ...gangnamToGwanghwamun,
+                maxWalkMin: 10,
+              },
+              "203.0.113.5"
+            )
+          );
+          assertEquals(second.status, 409);
+          assertEquals(second.headers.get("Retry-After"), "3");
+          assertEquals((await second.json()).error, "IN_FLIGHT");
+          assertEquals((await first).status, 200);
+        }
+      );
+
+      await t.step(
+        "a caller past its search budget is rate limited",
+        async () => {
+          mock.load({ entries: [] });
+          const walk = {
+            origin: CITY_HALL,
+            destination: GWANGHWAMUN,
+            maxTimeMin: 30,
+            maxWalkMin: 15,
+            departureTime: MORNING,
+          };
+          for (let i = 0; i < 5; i++) {
+            const response = await handleRequest(
+              postRoute({ ...walk, clientId: `fresh-${i}` }, "203.0.113.6")
+            );
+            assertEquals(response.status, 200);
+            await response.body?.cancel();
+          }
+
+          // A new clientId does not buy a new budget.
+          const limited = await handleRequest(
+            postRoute({ ...walk, clientId: "fresh-5" }, "203.0.113.6")
+          );
+          assertEquals(limited.status, 429);
+          const body = await limited.json();
+          assertEquals(body.error, "RATE_LIMITED");
+          assert(body.retryAfterSec > 0);
+          assertEquals(
+            limited.headers.get("Retry-After"),
+            String(body.retryAfterSec)
+          );
+
+          const other = await handleRequest(postRoute(walk, "203.0.113.7"));
+          assertEquals(other.status, 200);
+          await other.body?.cancel();
+        }
+      );
+
+      await t.step(
+        "upstream failure surfaces as UPSTREAM_UNAVAILABLE",
+        async () => {
+          mock.load(await loadFixture("upstream-down"));
+          const response = await handleRequest(
+            postRoute(gangnamToGwanghwamun, "203.0.113.8")
+          );
+          assertEquals(response.status, 502);
+          const body = await response.json();
+          assertEquals(body.error, "UPSTREAM_UNAVAILABLE");
+          assert(mock.calls.length > 0);
+        }
+      );
+
+      await t.step(
+        "invalid coordinates are rejected before any call",
+        async () => {
+          mock.load(gangnam);
+          const response = await handleRequest(
+            postRoute(
+              {
+                ...gangnamToGwanghwamun,
+                origin: { ...GANGNAM_EXIT_11, lat: Number.NaN },
+              },
+              "203.0.113.9"
+            )
+          );
+          assertEquals(response.status, 400);
+          const body = await response.json();
+          assertEquals(body.error, "INVALID_COORDINATES");
+          assertEquals(body.issues[0].path, "origin.lat");
+          assertEquals(mock.calls, []);
+        }
+      );
+
+      await t.step("negative scoring weights are rejected", async () => {
+        mock.load(gangnam);
+        const response = await handleRequest(
+          postRoute(
+            {
+              ...gangnamToGwanghwamun,
+              scoring: { valueOfTimeKrwPerMin: -200 },
+            },
+            "203.0.113.10"
+          )
+        );
+        assertEquals(response.status, 400);
+        const body = await response.json();
+        assertEquals(body.error, "INVALID_FIELD");
+        assertEquals(body.issues[0].path, "scoring.valueOfTimeKrwPerMin");
+        assertEquals(mock.calls, []);
+      });
+    } finally {
+      await mock.close();
+    }
+  },
+});
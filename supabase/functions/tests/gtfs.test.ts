@@ -0,0 +1,126 @@
+import { assert, assertEquals } from "jsr:@std/assert@1";
+import { createApiCache } from "../_shared/apiCache.ts";
+import { parseCsv } from "../find-optimal-route/gtfs/csv.ts";
+import { loadGtfsFeed } from "../find-optimal-route/gtfs/feed.ts";
+
+// The adapter reads GTFS_FEED_URL at import time.
+Deno.env.set(
+  "GTFS_FEED_URL",
+  new URL("./fixtures/gtfs/", import.meta.url).href
+);
+
+const { createGtfsTransitProvider } = await import(
+  "../find-optimal-route/providers/gtfs.ts"
+);
+
+const GANGNAM = { lat: 37.4985, lng: 127.0281 };
+const GWANGHWAMUN = { lat: 37.571, lng: 126.9768 };
+
+Deno.test("parseCsv handles quotes, CRLF and a byte-order mark", () => {
+  const rows = parseCsv(
+    '﻿stop_id,stop_name\r\nS1,"강남, 2호선"\r\nS2,"say ""hi"""\r\n'
+  );
+  assertEquals(rows, [
+    { stop_id: "S1", stop_name: "강남, 2호선" },
+    { stop_id: "S2", stop_name: 'say "hi"' },
+  ]);
+});
+
+Deno.test("parseCsv drops the rows keep rejects", () => {
+  const rows = parseCsv(
+    "stop_id,seq\nS1,1\nS2,2\nS1,3\n",
+    (row) => row.stop_id === "S1"
+  );
+  assertEquals(rows, [
+    { stop_id: "S1", seq: "1" },
+    { stop_id: "S1", seq: "3" },
+  ]);
+});
+
+Deno.test("a bounded feed leaves out stops outside the box", async () => {
+  // Around Gangnam and Seocho only.
+  const feed = await loadGtfsFeed(Deno.env.get("GTFS_FEED_URL")!, {
+    minLat: 37.49,
+    minLng: 127.0,
+    maxLat: 37.5,
+    maxLng: 127.03,
+  });
+  assertEquals(
+    feed.stops.map((stop) => stop.id),
+    ["S1", "S2", "S3", "B0", "B1"]
+  );
+  for (let i = 0; i < feed.connections.count; i++) {
+    assert(feed.connections.to[i] < feed.stops.length);
+  }
+});
+
+Deno.test("GTFS provider against the fixture feed", async (t) => {
+  const provider = createGtfsTransitProvider(createApiCache());
+  const summarize = async (departAt: string) =>
+    (await provider.searchRoutes(GANGNAM, GWANGHWAMUN, new Date(departAt))).map(
+      (itinerary) => ({
+        totalMin: Math.round(itinerary.totalTimeSec / 60),
+        fareKrw: itinerary.fareKrw,
+        pathType: itinerary.pathType,
+        rides: itinerary.segments
+          .filter((segment) => segment.mode !== "WALK")
+          .map(
+            (segment) =>
+              `${segment.route} ${segment.fromName}>${segment.toName} ` +
+              `(${segment.stationCount})`
+          ),
+      })
+    );
+
+  await t.step(
+    "fastest first, then alternatives without its main route",
+    async () => {
+      assertEquals(await summarize("2025-03-12T08:30:00+09:00"), [
+        {
+          totalMin: 44,
+          fareKrw: 1650,
+          pathType: 3,
+          rides: ["2호선 강남>서초 (3)", "470 서초역>광화문 (3)"],
+        },
+        {
+          totalMin: 61,
+          fareKrw: 1500,
+          pathType: 2,
+          rides: ["140 강남역>광화문 (2)"],
+        },
+      ]);
+    }
+  );
+
+  await t.step(
+    "after midnight uses the previous day's late trips",
+    async () => {
+      assertEquals(await summarize("2025-03-13T01:05:00+09:00"), [
+        {
+          totalMin: 46,
+          fareKrw: 1500,
+          pathType: 2,
+          rides: ["140 강남역>광화문 (2)"],
+        },
+      ]);
+    }
+  );
+
+  await t.step("segments carry stop-by-stop geometry", async () => {
+    const [fastest] = await provider.searchRoutes(
+      GANGNAM,
+      GWANGHWAMUN,
+      new Date("2025-03-12T08:30:00+09:00")
+    );
+    assertEquals(
+      fastest.segments.map((segment) => segment.path?.length),
+      [2, 3, 2, 3, 2]
+    );
+    assertEquals(fastest.segments[1].start, { lat: 37.4979, lng: 127.0276 });
+    assertEquals(fastest.segments[1].end, { lat: 37.4918, lng: 127.0076 });
+  });
+
+  await t.step("no service on days the calendar excludes", async () => {
+    assertEquals(await summarize("2025-03-16T08:30:00+09:00"), []);
+  });
+});
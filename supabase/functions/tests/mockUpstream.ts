@@ -0,0 +1,114 @@
+// Local stand-in for TMAP and Kakao. Point TMAP_BASE_URL, KAKAO_LOCAL_BASE_URL
+// and KAKAO_MOBILITY_BASE_URL at `baseUrl` and it replays the responses in the
+// loaded fixture. Their paths do not overlap, so one server covers all three.
+
+export interface FixtureRequest {
+  method: "GET" | "POST";
+  path: string;
+  // Only the listed query/body fields are compared; coordinates are compared
+  // at 5 decimal places so fixtures are not sensitive to float formatting.
+  query?: Record<string, string>;
+  body?: Record<string, string | number>;
+}
+
+export interface FixtureEntry {
+  request: FixtureRequest;
+  status?: number;
+  response: unknown;
+}
+
+export interface UpstreamFixture {
+  description?: string;
+  // When set, every upstream request fails with this status.
+  failAll?: number;
+  entries: FixtureEntry[];
+}
+
+export interface MockUpstream {
+  baseUrl: string;
+  calls: string[];
+  unmatched: string[];
+  load(fixture: UpstreamFixture): void;
+  close(): Promise<void>;
+}
+
+function normalizeValue(value: string | number): string {
+  return String(value)
+    .split(/([,|])/)
+    .map((part) => {
+      const n = Number(part);
+      return part.trim() !== "" && Number.isFinite(n) ? n.toFixed(5) : part;
+    })
+    .join("");
+}
+
+function matchesFields(
+  expected: Record<string, string | number> | undefined,
+  actual: Record<string, unknown>
+): boolean {
+  if (!expected) return true;
+  return Object.entries(expected).every(([key, value]) => {
+    const actualValue = actual[key];
+    if (typeof actualValue !== "string" && typeof actualValue !== "number") {
+      return false;
+    }
+    return normalizeValue(actualValue) === normalizeValue(value);
+  });
+}
+
+export async function loadFixture(name: string): Promise<UpstreamFixture> {
+  const url = new URL(`./fixtures/${name}.json`, import.meta.url);
+  return JSON.parse(await Deno.readTextFile(url));
+}
+
+export function startMockUpstream(): MockUpstream {
+  let fixture: UpstreamFixture = { entries: [] };
+  const calls: string[] = [];
+  const unmatched: string[] = [];
+
+  const server = Deno.serve(
+    { hostname: "127.0.0.1", port: 0, onListen: () => {} },
+    async (req) => {
+      const url = new URL(req.url);
+      const query = Object.fromEntries(url.searchParams);
+      const body: Record<string, unknown> =
+        req.method === "POST" ? await req.json() : {};
+      const signature = `${req.method} ${url.pathname}${url.search}${
+        req.method === "POST" ? ` ${JSON.stringify(body)}` : ""
+      }`;
+      calls.push(signature);
+
+      if (fixture.failAll) {
+        return Response.json(
+          { error: "upstream unavailable" },
+          { status: fixture.failAll }
+        );
+      }
+
+      const entry = fixture.entries.find(
+        ({ request }) =>
+          request.method === req.method &&
+          request.path === url.pathname &&
+          matchesFields(request.query, query) &&
+          matchesFields(request.body, body)
+      );
+      if (!entry) {
+        unmatched.push(signature);
+        return Response.json({ error: "no fixture" }, { status: 404 });
+      }
+      return Response.json(entry.response, { status: entry.status ?? 200 });
+    }
+  );
+
+  return {
+    baseUrl: `http://127.0.0.1:${server.addr.port}`,
+    calls,
+    unmatched,
+    load(next: UpstreamFixture) {
+      fixture = next;
+      calls.length = 0;
+      unmatched.length = 0;
+    },
+    close: () => server.shutdown(),
+  };
+}
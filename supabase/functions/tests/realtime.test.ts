@@ -0,0 +1,198 @@
+import { assertEquals } from "jsr:@std/assert@1";
+import type { RouteCandidate, TransitStep } from "../_shared/routeContract.ts";
+import {
+  alignToRealtimeArrivals,
+  applyRealtimeArrivals,
+} from "../find-optimal-route/realtime.ts";
+import type {
+  ArrivalProvider,
+  ArrivalQuery,
+} from "../find-optimal-route/providers/types.ts";
+
+const NOW = new Date("2026-10-19T08:00:00+09:00");
+
+function transitRoute(
+  steps: TransitStep[],
+  overrides: Partial<RouteCandidate> = {}
+): RouteCandidate {
+  return {
+    id: "route",
+    type: "transit-only",
+    totalTimeMin: 40,
+    totalCostKrw: 1550,
+    walkTimeMin: 5,
+    hasTaxi: false,
+    legs: [
+      {
+        type: "transit",
+        from: "강남역",
+        to: "광화문",
+        durationMin: 40,
+        costKrw: 1550,
+        details: { steps },
+      },
+    ],
+    slackMin: 10,
+    isFeasible: true,
+    ...overrides,
+  };
+}
+
+const walkToStation: TransitStep = {
+  mode: "WALK",
+  from: "출발지",
+  to: "강남",
+  duration: 300,
+};
+
+function subway(): TransitStep {
+  return {
+    mode: "SUBWAY",
+    from: "강남",
+    to: "을지로입구",
+    duration: 1500,
+    route: "수도권2호선",
+    nextStop: "역삼",
+  };
+}
+
+function fakeProvider(arrivalsSec: number[] | null) {
+  const queries: ArrivalQuery[] = [];
+  const provider: ArrivalProvider = {
+    name: "fake",
+    nextArrivals(query) {
+      queries.push(query);
+      return Promise.resolve(arrivalsSec);
+    },
+  };
+  return { provider, queries };
+}
+
+Deno.test("applyRealtimeArrivals", async (t) => {
+  await t.step("adds the wait for the first train after the walk", async () => {
+    const route = transitRoute([walkToStation, subway()]);
+    const { provider, queries } = fakeProvider([120, 420, 780]);
+
+    const adjusted = await applyRealtimeArrivals(
+      [route],
+      provider,
+      NOW,
+      60,
+      NOW
+    );
+
+    assertEquals(adjusted, 1);
+    assertEquals(queries, [
+      {
+        mode: "SUBWAY",
+        stopName: "강남",
+        route: "수도권2호선",
+        nextStopName: "역삼",
+        stop: undefined,
+      },
+    ]);
+    const step = (route.legs[0].details as { steps: TransitStep[] }).steps[1];
+    assertEquals(step.realtime, {
+      arrivesInMin: 7,
+      waitMin: 2,
+      nextDepartureAt: "2026-10-18T23:07:00.000Z",
+      provider: "fake",
+    });
+    assertEquals(route.totalTimeMin, 42);
+    assertEquals(route.slackMin, 8);
+    assertEquals(route.legs[0].durationMin, 42);
+    assertEquals(route.isFeasible, true);
+  });
+
+  await t.step(
+    "marks a route infeasible when the wait breaks the limit",
+    async () => {
+      const route = transitRoute([walkToStation, subway()], {
+        totalTimeMin: 58,
+        slackMin: 2,
+      });
+      const { provider } = fakeProvider([900]);
+
+      await applyRealtimeArrivals([route], provider, NOW, 60, NOW);
+
+      assertEquals(route.totalTimeMin, 68);
+      assertEquals(route.isFeasible, false);
+    }
+  );
+
+  await t.step("asks once per stop and direction", async () => {
+    const routes = [
+      transitRoute([walkToStation, subway()]),
+      transitRoute([walkToStation, subway()], { id: "other" }),
+    ];
+    const { provider, queries } = fakeProvider([600]);
+
+    assertEquals(
+      await applyRealtimeArrivals(routes, provider, NOW, 60, NOW),
+      2
+    );
+    assertEquals(queries.length, 1);
+  });
+
+  await t.step(
+    "keeps the estimate for later departures and missing data",
+    async () => {
+      const later = transitRoute([walkToStation, subway()]);
+      const { provider, queries } = fakeProvider([600]);
+      const departure = new Date(NOW.getTime() + 60 * 60000);
+
+      assertEquals(
+        await applyRealtimeArrivals([later], provider, departure, 60, NOW),
+        0
+      );
+      assertEquals(queries.length, 0);
+
+      const unknown = transitRoute([walkToStation, subway()]);
+      const { provider: silent } = fakeProvider(null);
+      assertEquals(
+        await applyRealtimeArrivals([unknown], silent, NOW, 60, NOW),
+        0
+      );
+      assertEquals(unknown.totalTimeMin, 40);
+      assertEquals(
+        (unknown.legs[0].details as { steps: TransitStep[] }).steps[1].realtime,
+        undefined
+      );
+    }
+  );
+});
+
+Deno.test("alignToRealtimeArrivals", async (t) => {
+  const arriveBy = new Date(NOW.getTime() + 50 * 60000);
+
+  await t.step(
+    "leaves in time for the last train that makes the deadline",
+    async () => {
+      const route = transitRoute([walkToStation, subway()]);
+      const { provider } = fakeProvider([120, 420, 780, 1200]);
+
+      assertEquals(
+        await alignToRealtimeArrivals([route], provider, arriveBy, NOW, NOW),
+        1
+      );
+      const step = (route.legs[0].details as { steps: TransitStep[] }).steps[1];
+      assertEquals(step.realtime?.arrivesInMin, 13);
+      assertEquals(route.leaveBy, "2026-10-18T23:08:00.000Z");
+      assertEquals(route.totalTimeMin, 40);
+      assertEquals(route.isFeasible, true);
+    }
+  );
+
+  await t.step(
+    "marks a route infeasible when no live train makes it",
+    async () => {
+      const route = transitRoute([walkToStation, subway()]);
+      const { provider } = fakeProvider([1200]);
+
+      await alignToRealtimeArrivals([route], provider, arriveBy, NOW, NOW);
+
+      assertEquals(route.leaveBy, undefined);
+      assertEquals(route.isFeasible, false);
+    }
+  );
+});
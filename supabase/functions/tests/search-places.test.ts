@@ -0,0 +1,123 @@
+import { assertEquals } from "jsr:@std/assert@1";
+import { loadFixture, startMockUpstream } from "./mockUpstream.ts";
+
+// The handler reads its configuration at import time.
+const mock = startMockUpstream();
+Deno.env.set("KAKAO_LOCAL_BASE_URL", mock.baseUrl);
+Deno.env.set("KAKAO_REST_API_KEY", "test-kakao-key");
+Deno.env.delete("SUPABASE_URL");
+Deno.env.delete("SUPABASE_SERVICE_ROLE_KEY");
+
+const { handleRequest } = await import("../search-places/handler.ts");
+
+const GANGNAM = { lat: 37.4985, lng: 127.0281 };
+
+// Searches are limited per caller address, so each step calls from its own.
+function postSearch(body: unknown, caller: string): Request {
+  return new Request("http://localhost/search-places", {
+    method: "POST",
+    headers: { "Content-Type": "application/json", "X-Forwarded-For": caller },
+    body: JSON.stringify(body),
+  });
+}
+
+Deno.test({
+  name: "search-places against recorded Kakao fixtures",
+  sanitizeOps: false,
+  sanitizeResources: false,
+  async fn(t) {
+    try {
+      const fixture = await loadFixture("place-search");
+
+      await t.step("keyword search keeps Kakao's order", async () => {
+        mock.load(fixture);
+        const response = await handleRequest(
+          postSearch({ query: " 스타벅스 " }, "203.0.113.1")
+        );
+        const body = await response.json();
+        assertEquals(body.places, [
+          {
+            name: "스타벅스 광화문점",
+            address: "서울 종로구 세종대로 167",
+            lat: 37.571584,
+            lng: 126.976868,
+          },
+        ]);
+      });
+
+      await t.step("a bias point promotes nearby matches", async () => {
+        mock.load(fixture);
+        const response = await handleRequest(
+          postSearch({ query: "스타벅스", near: GANGNAM }, "203.0.113.2")
+        );
+        const body = await response.json();
+        assertEquals(
+          body.places.map((p: { name: string; distanceM: number }) => [
+            p.name,
+            p.distanceM,
+          ]),
+          [
+            ["스타벅스 강남역신분당역사점", 147],
+            ["스타벅스 광화문점", 9298],
+          ]
+        );
+      });
+
+      await t.step("reverse geocoding names the building", async () => {
+        mock.load(fixture);
+        const response = await handleRequest(
+          postSearch({ at: GANGNAM }, "203.0.113.3")
+        );
+        const body = await response.json();
+        assertEquals(body.places, [
+          {
+            name: "강남역 11번 출구",
+            address: "서울 강남구 강남대로 396",
+            ...GANGNAM,
+          },
+        ]);
+      });
+
+      await t.step(
+        "upstream failure surfaces as UPSTREAM_UNAVAILABLE",
+        async () => {
+          mock.load(await loadFixture("upstream-down"));
+          const response = await handleRequest(
+            postSearch({ query: "스타벅스" }, "203.0.113.4")
+          );
+          assertEquals(response.status, 502);
+          assertEquals((await response.json()).error, "UPSTREAM_UNAVAILABLE");
+        }
+      );
+
+      await t.step("query and at are mutually exclusive", async () => {
+        mock.load(fixture);
+        const response = await handleRequest(
+          postSearch({ query: "스타벅스", at: GANGNAM }, "203.0.113.5")
+        );
+        assertEquals(response.status, 400);
+        assertEquals(mock.calls, []);
+      });
+
+      await t.step("bursts beyond the bucket are rate limited", async () => {
+        mock.load(fixture);
+        let response: Response | undefined;
+        for (let i = 0; i < 31; i++) {
+          // A body clientId, as older clients send, does not buy a budget.
+          response = await handleRequest(
+            postSearch(
+              { query: "스타벅스", clientId: `burst-${i}` },
+              "203.0.113.6"
+            )
+          );
+          if (i < 30) assertEquals(response.status, 200);
+          await response.body?.cancel();
+        }
+        assertEquals(response?.status, 429);
+        assertEquals(response?.headers.get("Retry-After"), "1");
+      });
+    } finally {
+      await mock.close();
+    }
+  },
+});
@@ -0,0 +1,47 @@
+/*
+  # Add search history columns
+
+  1. Changes
+    - `searches`
+      - `client_id` (text) - 검색한 브라우저 식별자
+      - `departure_time` (timestamptz) - 출발 시각
+      - `arrive_by` (timestamptz) - 도착 희망 시각
+      - `taxi_max_segments` (integer) - 허용한 택시 구간 수
+
+  2. Security
+    - There are no accounts, so the app sends its `client_id` in the
+      `x-client-id` request header. Anon reads and deletes on searches are
+      limited to rows recorded under it, so users can only see and clear
+      their own history.
+*/
+
+ALTER TABLE searches ADD COLUMN IF NOT EXISTS client_id text;
+ALTER TABLE searches ADD COLUMN IF NOT EXISTS departure_time timestamptz;
+ALTER TABLE searches ADD COLUMN IF NOT EXISTS arrive_by timestamptz;
+ALTER TABLE searches ADD COLUMN IF NOT EXISTS taxi_max_segments integer DEFAULT 1;
+
+CREATE OR REPLACE FUNCTION requesting_client_id()
+RETURNS text
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT nullif(
+    current_setting('request.headers', true)::json->>'x-client-id',
+    ''
+  );
+$$;
+
+DROP POLICY IF EXISTS "Anyone can view searches" ON searches;
+
+CREATE POLICY "Clients can view their searches"
+  ON searches FOR SELECT
+  TO anon
+  USING (client_id = requesting_client_id());
+
+CREATE POLICY "Clients can delete their searches"
+  ON searches FOR DELETE
+  TO anon
+  USING (client_id = requesting_client_id());
+
+CREATE INDEX IF NOT EXISTS idx_searches_client_searched_at
+  ON searches(client_id, searched_at DESC);
@@ -0,0 +1,64 @@
+/*
+  # Create saved places
+
+  1. New Tables
+    - `saved_places`
+      - `id` (uuid, primary key)
+      - `client_id` (text) - 저장한 브라우저 식별자
+      - `kind` (text) - 'home' (집), 'work' (회사) 또는 'custom'
+      - `label` (text) - 칩에 표시할 이름
+      - `name` (text) - 장소 이름
+      - `address` (text) - 주소
+      - `lat` (numeric) - 위도
+      - `lng` (numeric) - 경도
+      - `created_at` (timestamptz)
+      - `updated_at` (timestamptz)
+
+  2. Security
+    - There are no accounts, so the app sends its `client_id` in the
+      `x-client-id` request header and RLS only exposes rows saved under it.
+    - At most one home and one work place per client, and labels are unique
+      per client.
+*/
+
+CREATE TABLE IF NOT EXISTS saved_places (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  client_id text NOT NULL,
+  kind text NOT NULL CHECK (kind IN ('home', 'work', 'custom')),
+  label text NOT NULL CHECK (char_length(label) BETWEEN 1 AND 20),
+  name text NOT NULL,
+  address text,
+  lat numeric NOT NULL,
+  lng numeric NOT NULL,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE saved_places ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Clients can view their saved places"
+  ON saved_places FOR SELECT
+  TO anon
+  USING (client_id = requesting_client_id());
+
+CREATE POLICY "Clients can insert their saved places"
+  ON saved_places FOR INSERT
+  TO anon
+  WITH CHECK (client_id = requesting_client_id());
+
+CREATE POLICY "Clients can update their saved places"
+  ON saved_places FOR UPDATE
+  TO anon
+  USING (client_id = requesting_client_id())
+  WITH CHECK (client_id = requesting_client_id());
+
+CREATE POLICY "Clients can delete their saved places"
+  ON saved_places FOR DELETE
+  TO anon
+  USING (client_id = requesting_client_id());
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_saved_places_client_label
+  ON saved_places(client_id, label);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_saved_places_client_fixed_kind
+  ON saved_places(client_id, kind)
+  WHERE kind IN ('home', 'work');
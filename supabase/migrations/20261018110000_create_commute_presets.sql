@@ -0,0 +1,119 @@
+/*
+  # Create commute presets and their daily briefings
+
+  1. New Tables
+    - `commute_presets`
+      - `id` (uuid, primary key)
+      - `client_id` (text) - 저장한 브라우저 식별자
+      - `label` (text) - 프리셋 이름 (예: 출근)
+      - `request` (jsonb) - 시각을 뺀 경로 검색 요청
+      - `time_mode` (text) - 'depart' 또는 'arrive'
+      - `time_of_day` (time) - 출발/도착 시각 (KST)
+      - `weekdays` (smallint[]) - 평가할 요일 (ISO, 1 = 월요일)
+      - `active` (boolean)
+      - `created_at` (timestamptz)
+
+    - `commute_briefings`
+      - `id` (uuid, primary key)
+      - `preset_id` (uuid) - 평가한 프리셋
+      - `client_id` (text)
+      - `service_date` (date) - 평가한 날짜 (KST)
+      - `headline` (text) - 배너 문구
+      - `leave_by` (timestamptz) - 늦어도 출발해야 하는 시각
+      - `route_type` (text) - 추천 경로 유형
+      - `total_cost_krw` (integer)
+      - `savings_krw` (integer) - 택시만 탈 때보다 아끼는 금액
+      - `search_id` (uuid) - 기록된 `searches` 행
+      - `created_at` (timestamptz)
+
+  2. Security
+    - Scoped to the `x-client-id` request header like `saved_places`.
+    - Briefings are written only by the `evaluate-commutes` function with the
+      service role, so clients can read them but not write them.
+
+  3. Schedule
+    - pg_cron calls `evaluate-commutes` every five minutes. The project URL
+      and service role key are read from Vault secrets named `project_url`
+      and `service_role_key`.
+*/
+
+CREATE TABLE IF NOT EXISTS commute_presets (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  client_id text NOT NULL,
+  label text NOT NULL CHECK (char_length(label) BETWEEN 1 AND 20),
+  request jsonb NOT NULL,
+  time_mode text NOT NULL CHECK (time_mode IN ('depart', 'arrive')),
+  time_of_day time NOT NULL,
+  weekdays smallint[] NOT NULL DEFAULT '{1,2,3,4,5}',
+  active boolean NOT NULL DEFAULT true,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS commute_briefings (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  preset_id uuid NOT NULL REFERENCES commute_presets(id) ON DELETE CASCADE,
+  client_id text NOT NULL,
+  service_date date NOT NULL,
+  headline text NOT NULL,
+  leave_by timestamptz,
+  route_type text,
+  total_cost_krw integer,
+  savings_krw integer,
+  search_id uuid REFERENCES searches(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (preset_id, service_date)
+);
+
+ALTER TABLE commute_presets ENABLE ROW LEVEL SECURITY;
+ALTER TABLE commute_briefings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Clients can view their commute presets"
+  ON commute_presets FOR SELECT
+  TO anon
+  USING (client_id = requesting_client_id());
+
+CREATE POLICY "Clients can insert their commute presets"
+  ON commute_presets FOR INSERT
+  TO anon
+  WITH CHECK (client_id = requesting_client_id());
+
+CREATE POLICY "Clients can update their commute presets"
+  ON commute_presets FOR UPDATE
+  TO anon
+  USING (client_id = requesting_client_id())
+  WITH CHECK (client_id = requesting_client_id());
+
+CREATE POLICY "Clients can delete their commute presets"
+  ON commute_presets FOR DELETE
+  TO anon
+  USING (client_id = requesting_client_id());
+
+CREATE POLICY "Clients can view their commute briefings"
+  ON commute_briefings FOR SELECT
+  TO anon
+  USING (client_id = requesting_client_id());
+
+CREATE INDEX IF NOT EXISTS idx_commute_presets_active
+  ON commute_presets(time_of_day)
+  WHERE active;
+CREATE INDEX IF NOT EXISTS idx_commute_briefings_client_date
+  ON commute_briefings(client_id, service_date DESC);
+
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+CREATE EXTENSION IF NOT EXISTS pg_net;
+
+SELECT cron.schedule(
+  'evaluate-commutes',
+  '*/5 * * * *',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url')
+      || '/functions/v1/evaluate-commutes',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{}'::jsonb
+  );
+  $$
+);